@@ -0,0 +1,35 @@
+-- =============================================================================
+-- XAOSTECH Lingua - Glossaries D1 Migration
+-- =============================================================================
+-- Customer glossaries: named sets of source terms with the exact translation
+-- each term must receive in every target language.
+-- =============================================================================
+
+-- =============================================================================
+-- GLOSSARIES TABLE
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS glossaries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    source_language TEXT DEFAULT 'en',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =============================================================================
+-- GLOSSARY TERMS TABLE
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS glossary_terms (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    glossary_id INTEGER NOT NULL REFERENCES glossaries(id) ON DELETE CASCADE,
+    source_term TEXT NOT NULL,
+    translations_json TEXT NOT NULL, -- JSON object: { "es": "Lingua Pro", "fr": "Lingua Pro", ... }
+    case_sensitive BOOLEAN DEFAULT 0,
+    pos TEXT,                        -- Part of speech: noun, verb, proper noun, etc.
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(glossary_id, source_term)
+);
+
+CREATE INDEX IF NOT EXISTS idx_glossary_terms_glossary ON glossary_terms(glossary_id);
@@ -0,0 +1,37 @@
+-- =============================================================================
+-- XAOSTECH Lingua - Translation Memory D1 Migration
+-- =============================================================================
+-- Persistent source/target segment pairs with provenance, plus a token index
+-- used to find fuzzy-match candidates without scanning the whole memory.
+-- =============================================================================
+
+-- =============================================================================
+-- TRANSLATION MEMORY TABLE
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS translation_memory (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source_language TEXT NOT NULL,
+    target_language TEXT NOT NULL,
+    source_text TEXT NOT NULL,
+    target_text TEXT NOT NULL,
+    source_key TEXT NOT NULL,        -- Normalised source (lowercase, collapsed whitespace)
+    source_length INTEGER NOT NULL,  -- Length of source_key, for candidate pruning
+    provenance TEXT NOT NULL DEFAULT 'ai', -- dictionary | ai | import | human
+    usage_count INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(source_language, target_language, source_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tm_pair_length ON translation_memory(source_language, target_language, source_length);
+
+-- =============================================================================
+-- TOKEN INDEX (fuzzy candidates)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS translation_memory_tokens (
+    tm_id INTEGER NOT NULL REFERENCES translation_memory(id) ON DELETE CASCADE,
+    token TEXT NOT NULL,             -- Lowercase word, or character bigram for CJK/Thai
+    PRIMARY KEY (token, tm_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tm_tokens_entry ON translation_memory_tokens(tm_id);
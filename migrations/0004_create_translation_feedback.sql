@@ -0,0 +1,25 @@
+-- =============================================================================
+-- XAOSTECH Lingua - Translation Feedback D1 Migration
+-- =============================================================================
+-- Audit trail of human post-edits: who corrected which machine translation,
+-- and which word pairs were learned from the correction.
+-- =============================================================================
+
+-- =============================================================================
+-- TRANSLATION FEEDBACK TABLE
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS translation_feedback (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source_language TEXT NOT NULL,
+    target_language TEXT NOT NULL,
+    original_text TEXT NOT NULL,
+    machine_text TEXT NOT NULL,
+    corrected_text TEXT NOT NULL,
+    reviewer TEXT NOT NULL,          -- Principal (API key id) that submitted the correction
+    glossary_id INTEGER,
+    word_pairs_json TEXT,            -- JSON array: [{ "word": "...", "translation": "..." }]
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_created ON translation_feedback(created_at);
+CREATE INDEX IF NOT EXISTS idx_feedback_reviewer ON translation_feedback(reviewer);
@@ -0,0 +1,28 @@
+-- =============================================================================
+-- XAOSTECH Lingua - Usage Events D1 Migration
+-- =============================================================================
+-- One row per metered request: who made it, what it translated and how it
+-- was served (dictionary, cache or Workers AI, and which models were tried).
+-- =============================================================================
+
+-- =============================================================================
+-- USAGE EVENTS TABLE
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS usage_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    principal TEXT NOT NULL,         -- API key id, 'root' or 'anonymous'
+    route TEXT NOT NULL,             -- e.g. 'POST /translate'
+    source_language TEXT,
+    target_language TEXT,
+    characters INTEGER NOT NULL DEFAULT 0,
+    source TEXT NOT NULL,            -- dictionary | cache | api | mixed | local | none
+    model TEXT,                      -- Model that produced the output (NULL = no AI call)
+    fallback_chain TEXT,             -- JSON array: [{ "model": "...", "ok": true, "ms": 120 }]
+    latency_ms INTEGER NOT NULL,
+    status INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_created ON usage_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_principal ON usage_events(principal, created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_model ON usage_events(model, created_at);
@@ -0,0 +1,11 @@
+-- =============================================================================
+-- XAOSTECH Lingua - Glossary Ownership D1 Migration
+-- =============================================================================
+-- Records which principal created each glossary; only that principal (or the
+-- root key) may edit or delete it. Existing glossaries have no owner and are
+-- left to the root key.
+-- =============================================================================
+
+ALTER TABLE glossaries ADD COLUMN created_by TEXT; -- API key id or 'root' (NULL = created before ownership)
+
+CREATE INDEX IF NOT EXISTS idx_glossaries_created_by ON glossaries(created_by);
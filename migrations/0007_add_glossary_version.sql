@@ -0,0 +1,9 @@
+-- =============================================================================
+-- XAOSTECH Lingua - Glossary Version D1 Migration
+-- =============================================================================
+-- A counter bumped on every edit to a glossary or its terms. Translation
+-- cache keys include it: updated_at has one-second precision, so two edits
+-- in the same second would otherwise keep serving the first edit's output.
+-- =============================================================================
+
+ALTER TABLE glossaries ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
@@ -1,23 +1,33 @@
 import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { createApiProxyRoute } from '../shared/types/api-proxy-hono';
 import { serveFaviconHono } from '../shared/types/favicon';
 import { applySecurityHeaders } from '../shared/types/security';
 import {
   lookupWord,
   translateWord,
-  translateWords,
+  tokenizePhrases,
+  analyseEnglishWord,
+  prepareDictionaryText,
+  translateDictionaryText,
+  isLanguagePairSupported,
   getSupportedLanguages,
   getDictionaryStats,
   getEtymology as getDictEtymology,
   CORE_DICTIONARY,
+  type DictionaryTextPass,
   type TranslationResult,
 } from './lib/dictionary';
+import { createReverseIndex, indexEntry, type ReverseIndex } from './lib/reverseIndex';
+import { phraseCandidates } from './lib/phraseTrie';
+import type { Inflection } from './lib/morphology';
 import {
   exportDictionaryToJSON,
   exportLearnedWordsToJSON,
   getDictionaryStatsFromD1,
   lookupWordFromD1,
   translateWordFromD1,
+  findEntriesByTranslationFromD1,
 } from './lib/d1-dictionary';
 import { getFullEtymology, getDefinitions } from './lib/etymology';
 import {
@@ -35,11 +45,157 @@ import {
   type LearningConfig,
 } from './lib/learnedWords';
 import { createDictionaryPR } from './lib/githubPR';
-
-// Cloudflare AI model IDs
-const CF_TRANSLATION_MODEL = '@cf/meta/m2m100-1.2b';
-const CF_TEXT_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
-const CF_TEXT_MODEL_FAST = '@cf/meta/llama-3.1-8b-instruct-fast';
+import {
+  requireScope,
+  hasScope,
+  parseScopes,
+  createApiKey,
+  rotateApiKey,
+  revokeApiKey,
+  listApiKeys,
+  type Principal,
+} from './lib/auth';
+import {
+  rateLimit,
+  meterUsage,
+  quotaExceededResponse,
+  QuotaExceededError,
+  counterStore,
+  resolveLimits,
+  rateLimitSubject,
+  peekBucket,
+  getQuotaUsage,
+  quotaResetsAt,
+  parseLimits,
+  type UsageMeter,
+} from './lib/rateLimit';
+import {
+  trackUsage,
+  traceModel,
+  traceCacheHit,
+  deferUsage,
+  usageReport,
+  USAGE_GROUPINGS,
+  type UsageGrouping,
+  type UsageTrace,
+} from './lib/usage';
+import {
+  indexText,
+  textIndexKey,
+  createPurgeJob,
+  getPurgeJob,
+  runPurgeJob,
+  CACHE_ROUTES,
+  type CacheRoute,
+  type PurgeScope,
+} from './lib/cacheIndex';
+import { sha256Hex, canonicalJSON } from './lib/digest';
+import { estimateQuality, type QualityReport } from './lib/quality';
+import {
+  dictionaryAlternatives,
+  sampleAlternatives,
+  mergeAlternatives,
+  MAX_ALTERNATIVES,
+  MAX_ALTERNATIVE_TEXT_LENGTH,
+  type TranslationAlternative,
+  type ModelSample,
+} from './lib/alternatives';
+import {
+  createProviders,
+  resolveRoute,
+  matchRoute,
+  translateWithChain,
+  completeWithChain,
+  getProviderConfig,
+  setProviderConfig,
+  parseProviderConfig,
+  PROVIDER_MODELS,
+  providerForModel,
+  type ProviderConfig,
+  type ProviderId,
+  type TranslationProvider,
+  type ModelRunner,
+} from './lib/providers';
+import {
+  parseCachePolicy,
+  cacheFreshness,
+  cacheAge,
+  DEFAULT_CACHE_POLICY,
+  type CachePolicy,
+  type CacheMetadata,
+} from './lib/cachePolicy';
+import { recordFeedback, listFeedback, type CorrectedWordPair } from './lib/feedback';
+import { segmentText, joinSegments, type Segment } from './lib/segmenter';
+import {
+  alignTranslation,
+  tokenize,
+  TRUSTED_ALIGNMENT_CONFIDENCE,
+  type AlignmentLink,
+} from './lib/alignment';
+import {
+  listGlossaries,
+  getGlossary,
+  createGlossary,
+  updateGlossary,
+  deleteGlossary,
+  upsertGlossaryTerms,
+  updateGlossaryTerm,
+  deleteGlossaryTerm,
+  findGlossaryMatches,
+  translateWithGlossary,
+  containsTerm,
+  type Glossary,
+  type GlossaryRequirement,
+  type GlossaryTermInput,
+} from './lib/glossary';
+import {
+  protectText,
+  restoreProtectedText,
+  type ProtectedText,
+  type ProtectionOptions,
+  type PlaceholderValidationError,
+} from './lib/placeholders';
+import { unmaskText, originalOffset, type Placeholder } from './lib/masking';
+import {
+  parseDocument,
+  renderDocument,
+  truncateDocument,
+  DOCUMENT_FORMATS,
+  TRANSLATABLE_ATTRIBUTES,
+  type DocumentFormat,
+  type ParsedDocument,
+} from './lib/markup';
+import {
+  extractUnits,
+  writeTranslations,
+  declaredSourceLanguage,
+  protectionFor,
+  LOCALISATION_FORMATS,
+  type LocalisationFormat,
+  type LocalisationUnit,
+} from './lib/localisationFiles';
+import {
+  parseSubtitles,
+  subtitleUnits,
+  renderSubtitles,
+  SUBTITLE_FORMATS,
+  SUBTITLE_PROTECTION,
+  DEFAULT_WRAP,
+  type SubtitleFormat,
+  type SubtitleDocument,
+} from './lib/subtitles';
+import {
+  findMemoryMatch,
+  recordMemoryUsage,
+  storeMemoryEntry,
+  listMemoryEntries,
+  parseTmx,
+  buildTmx,
+  TM_PROVENANCES,
+  DEFAULT_MIN_TM_SCORE,
+  type TMMatch,
+  type TMProvenance,
+} from './lib/translationMemory';
 
 interface Env {
   TRANSLATIONS_KV: KVNamespace;
@@ -47,19 +203,35 @@ interface Env {
   LEARNED_WORDS_KV: KVNamespace;
   LINGUA_DB: D1Database; // D1 database binding for dictionary
   CACHE_TTL_SECONDS: string;
-  AI: Ai; // Cloudflare Workers AI binding
+  AI?: Ai; // Cloudflare Workers AI binding (optional - the `local` provider works without it)
   GITHUB_TOKEN?: string;
   GITHUB_OWNER?: string;
   GITHUB_REPO?: string;
   API_ACCESS_CLIENT_ID?: string;
   API_ACCESS_CLIENT_SECRET?: string;
+  API_KEYS_KV?: KVNamespace; // Hashed API keys (see lib/auth.ts)
+  ADMIN_API_KEY?: string; // Root key with every scope
+  REQUIRE_API_KEY?: string; // 'true' = translation routes need a key too
+  RATE_LIMIT_KV?: KVNamespace; // Rate limit buckets and monthly quotas (see lib/rateLimit.ts)
+  LEGACY_CACHE_UNTIL?: string; // ISO date - v2 cache keys are read until then
+  TRANSLATION_PROVIDERS?: string; // Default provider chain, e.g. 'm2m100,llama-fast,llama' (see lib/providers.ts)
+  TRANSLATION_ROUTES?: string; // JSON route table, e.g. [{"pair": "en-ja", "maxLength": 200, "providers": ["llama"], "timeoutMs": 8000}]
 }
 
 interface TranslationRequest {
   text: string;
   from?: string;
-  to: string;
+  to: string | string[]; // One language, or several (results keyed by language)
   context?: string;
+  glossaryId?: number;
+  protect?: boolean | ProtectionOptions; // Do-not-translate detection (default: all patterns)
+  format?: DocumentFormat; // 'html' / 'markdown' translate text only, keeping markup
+  translateAttributes?: boolean | string[]; // Also translate alt/title (true) or the listed attributes
+  tm?: boolean; // Use the translation memory (default: true)
+  tmThreshold?: number; // Lowest memory match score reused as-is (default: 100)
+  cache?: string; // Cache policy, e.g. 'no-store' or 'max-age=3600, stale-while-revalidate=600'
+  qa?: boolean; // Back-translate and score the output (see lib/quality.ts)
+  alternatives?: number; // Up to this many candidates for short plain texts (see lib/alternatives.ts)
 }
 
 interface TranslationResponse {
@@ -68,15 +240,73 @@ interface TranslationResponse {
   from_language: string;
   to_language: string;
   cached: boolean;
-  source?: 'dictionary' | 'cache' | 'api';
+  source?: 'dictionary' | 'cache' | 'api' | 'human';
+  model?: string | null; // Model behind most of the output (see summariseModel)
   words?: Array<{
     original: string;
     translated: string;
     hasEtymology: boolean;
+    confidence?: number;
+    pivot?: string; // English headword a non-English source word went through
+    alternatives?: string[]; // Other translations of an ambiguous source word
+    lemma?: string; // Dictionary form of an English source word ("ran" -> "run")
+    inflection?: Inflection;
+    reinflected?: boolean; // false: the translation is the lemma's, uninflected
   }>;
+  segments?: SegmentTranslation[];
+  alignment?: AlignmentLink[];
+  glossary?: GlossarySummary;
+  validation_errors?: PlaceholderValidationError[];
+  format?: DocumentFormat;
+  tm_match?: TMMatchSummary;
+  quality?: QualityReport;
+  alternatives?: TranslationAlternative[]; // Best first; `translated` is the main translation
+}
+
+interface TMMatchSummary {
+  id?: number;
+  score: number; // Percentage similarity of the memory source to the input
+  source: TMProvenance | 'mixed';
+  reused: boolean; // Taken as-is (true) or given to the model as a reference
+}
+
+// Translation memory settings for a request
+interface MemoryOptions {
+  sourceLanguage: string;
+  reuseScore: number;
+  referenceScore: number;
+}
+
+interface GlossarySummary {
+  id: number;
+  name: string;
+  applied: GlossaryRequirement[];
+  missing: GlossaryRequirement[];
+}
+
+// Options that change how individual segments are translated
+interface SegmentOptions {
+  context?: string;
+  glossary?: Glossary;
+  placeholderOffset?: number; // First free placeholder index after protected tokens
+  placeholders?: Placeholder[]; // Protected tokens masked out of the segment text
+  memory?: MemoryOptions;
+  cachePolicy?: CachePolicy;
+  deferredCacheWrites?: Array<() => Promise<void>>; // Collects segment cache writes instead of making them (QA mode)
 }
 
-const app = new Hono<{ Bindings: Env }>();
+interface SegmentTranslation {
+  index: number;
+  original: string;
+  translated: string;
+  start: number;
+  end: number;
+  cached: boolean;
+  model?: string; // Model that translated it (absent for TM reuse)
+  tm_match?: TMMatchSummary;
+}
+
+const app = new Hono<{ Bindings: Env; Variables: { principal: Principal; usage: UsageMeter; trace: UsageTrace } }>();
 
 // Global security headers middleware
 app.use('*', async (c, next) => {
@@ -820,189 +1050,476 @@ app.all('/api/*', createApiProxyRoute());
 app.get('/favicon.ico', serveFaviconHono);
 
 // Cache version - increment to invalidate old cached translations
-const CACHE_VERSION = 'v2';
+const CACHE_VERSION = 'v3';
+
+// Previous version (32-bit hash keys), still read until LEGACY_CACHE_UNTIL
+const LEGACY_CACHE_VERSION = 'v2';
 
 // ============ TRANSLATION ENDPOINTS ============
 
-// Translate text - Now with dictionary fallback
-app.post('/translate', async (c) => {
-  try {
-    const body = await c.req.json<TranslationRequest>();
-    const { text, from = 'auto', to, context } = body;
+// Concurrent targets in a multi-target /translate request
+const TARGET_CONCURRENCY = 4;
+const MAX_TRANSLATE_TARGETS = 20;
 
-    if (!text || !to) {
-      return c.json({ error: 'text and to language required' }, 400);
+// Texts longer than this (in words) are never translated from the dictionary alone
+const DICTIONARY_MAX_WORDS = 10;
+
+/**
+ * Look up the source words once for every target, longest dictionary phrase
+ * first. Non-English sources go through the reverse index, including D1
+ * entries whose translations match the words or phrases.
+ */
+async function dictionaryPass(c: any, text: string, from: string): Promise<DictionaryTextPass> {
+  const words = text.toLowerCase().split(/\s+/).filter(w => w.length > 0);
+  const extra: ReverseIndex[] = [];
+
+  if (from !== 'en' && from !== 'auto' && c.env.LINGUA_DB && words.length <= DICTIONARY_MAX_WORDS) {
+    try {
+      const index = createReverseIndex();
+      for (const { word, entry } of await findEntriesByTranslationFromD1(c.env.LINGUA_DB, phraseCandidates(words), from)) {
+        indexEntry(index, word, entry.translations, { frequency: entry.frequency, origin: 'd1' });
+      }
+      extra.push(index);
+    } catch (err) {
+      console.warn('[DICTIONARY] Reverse lookup failed:', err);
     }
+  }
 
-    // Check for cache bypass header
-    const bypassCache = c.req.header('X-Bypass-Cache') === 'true';
+  return prepareDictionaryText(text, from, extra);
+}
 
-    // Normalize inputs
-    const normalizedText = text.trim().substring(0, 5000);
-    const cacheKey = `${CACHE_VERSION}:trans:${from}:${to}:${hashString(normalizedText)}`;
+// Everything about a /translate request that doesn't depend on the target
+interface PreparedTranslation {
+  body: TranslationRequest;
+  text: string; // Normalised (trimmed, truncated) source
+  from: string;
+  format: DocumentFormat;
+  glossary?: Glossary;
+  protectedText: ProtectedText;
+  document: ParsedDocument | null;
+  unitProtection: ProtectedText[];
+  cachePolicy: CachePolicy;
+  segmentOptions: SegmentOptions;
+  cacheInputs: TranslationCacheInputs;
+  qa: boolean;
+  alternatives: number;
+  dictionary: DictionaryTextPass; // One lookup of the source words, shared by every target
+}
 
-    // 1. Check KV cache first (unless bypassed)
-    if (!bypassCache) {
-      const cached = await c.env.CACHE_KV.get(cacheKey);
-      if (cached) {
-        const result = JSON.parse(cached);
-        return c.json({ ...result, cached: true }, 200, {
-          'X-Cache': 'HIT',
-        });
+// A target's result, or (when streaming) the point where the model takes over
+type TargetOutcome =
+  | { result: TranslationResponse; headers: Record<string, string> }
+  | { stream: true; cacheKey: string; segmentOptions: SegmentOptions };
+
+// Translate text - Now with dictionary fallback. `to` may list several languages.
+app.post('/translate', requireScope('translate'), rateLimit(), trackUsage(), async (c) => {
+  try {
+    const body = await c.req.json<TranslationRequest>();
+    const { prepared, error } = await prepareTranslation(c, body);
+    if (error) {
+      return error;
+    }
+
+    // Opt-in Server-Sent Events streaming (Accept: text/event-stream or ?stream=1)
+    const stream = wantsEventStream(c);
+
+    if (Array.isArray(body.to)) {
+      if (stream) {
+        return c.json({ error: 'Streaming supports a single target language' }, 400);
       }
+      return translateTargets(c, prepared, [...new Set(body.to)]);
     }
 
-    // 2. Try dictionary-based translation for simple words/phrases
-    const words = normalizedText.toLowerCase().split(/\s+/).filter(w => w.length > 0);
+    const outcome = await translateForTarget(c, prepared, body.to, stream);
+
+    // Streaming mode translates sentence by sentence and emits partial results
+    if ('stream' in outcome) {
+      return streamTranslation(c, {
+        text: prepared.text,
+        protectedText: prepared.protectedText,
+        from: prepared.from,
+        to: body.to,
+        cacheKey: outcome.cacheKey,
+        segmentOptions: outcome.segmentOptions,
+        qa: prepared.qa,
+        alternatives: prepared.alternatives,
+      });
+    }
 
-    // Check if ALL words are in dictionary (for short texts)
-    if (words.length <= 10 && (from === 'en' || from === 'auto')) {
-      const { translated, notFound } = translateWords(words, to);
+    return stream
+      ? streamSingleResult(c, outcome.result, outcome.headers)
+      : c.json(outcome.result, 200, outcome.headers);
+  } catch (err: any) {
+    if (err instanceof QuotaExceededError) {
+      return quotaExceededResponse(c, err);
+    }
+    console.error('[TRANSLATE] Error:', err);
+    return c.json({ error: 'Translation failed', message: err.message }, 500);
+  }
+});
 
-      // If all words found in dictionary, use dictionary translation
-      if (notFound.length === 0 && translated.length === words.length) {
-        const translatedText = translated.map(t => t.translated).join(' ');
+/**
+ * Validate a /translate request and do the target-independent work: glossary,
+ * cache policy, normalisation, protection and the dictionary lookup
+ */
+async function prepareTranslation(
+  c: any,
+  body: TranslationRequest
+): Promise<{ prepared: PreparedTranslation; error?: undefined } | { prepared?: undefined; error: Response }> {
+  const { text, from = 'auto', to, context, glossaryId, protect, format = 'text' } = body;
+  const qa = body.qa === true;
+
+  const alternativeCount = body.alternatives ?? 1;
+  if (!Number.isInteger(alternativeCount) || alternativeCount < 1 || alternativeCount > MAX_ALTERNATIVES) {
+    return { error: c.json({ error: `alternatives must be an integer between 1 and ${MAX_ALTERNATIVES}` }, 400) };
+  }
 
-        const result: TranslationResponse = {
-          original: normalizedText,
-          translated: translatedText,
-          from_language: from === 'auto' ? 'en' : from,
-          to_language: to,
-          cached: false,
-          source: 'dictionary',
-          words: translated.map(t => ({
-            original: t.original,
-            translated: t.translated,
-            hasEtymology: !!t.etymology,
-          })),
-        };
+  const targets = Array.isArray(to) ? to : [to];
+  if (!text || targets.length === 0 || targets.some(t => !t || typeof t !== 'string')) {
+    return { error: c.json({ error: 'text and to language required' }, 400) };
+  }
 
-        // Cache the dictionary result
-        await c.env.CACHE_KV.put(cacheKey, JSON.stringify(result), {
-          expirationTtl: parseInt(c.env.CACHE_TTL_SECONDS) || 86400,
-        });
+  if (targets.length > MAX_TRANSLATE_TARGETS) {
+    return { error: c.json({ error: `Maximum ${MAX_TRANSLATE_TARGETS} target languages per request` }, 400) };
+  }
 
-        return c.json(result, 200, {
-          'X-Cache': 'MISS',
-          'X-Translation-Mode': 'dictionary',
-        });
-      }
+  if (!DOCUMENT_FORMATS.includes(format)) {
+    return { error: c.json({ error: `format must be one of: ${DOCUMENT_FORMATS.join(', ')}` }, 400) };
+  }
+  const translateAttributes = resolveTranslateAttributes(body.translateAttributes);
+
+  // Load the glossary whose terms must appear in the output
+  const { glossary, error: glossaryError } = await resolveGlossary(c, glossaryId);
+  if (glossaryError) {
+    return { error: glossaryError };
+  }
+
+  // Cache policy from the `cache` field or Cache-Control header
+  // (X-Bypass-Cache: true is the older spelling of no-cache)
+  let cachePolicy: CachePolicy;
+  try {
+    cachePolicy = parseCachePolicy(
+      body.cache ?? c.req.header('Cache-Control') ?? (c.req.header('X-Bypass-Cache') === 'true' ? 'no-cache' : undefined)
+    );
+  } catch (err: any) {
+    return { error: c.json({ error: err.message }, 400) };
+  }
+
+  // n-best output only for short plain texts
+  const alternatives = format === 'text' && text.trim().length <= MAX_ALTERNATIVE_TEXT_LENGTH ? alternativeCount : 1;
+
+  const segmentOptions: SegmentOptions = {
+    context,
+    glossary,
+    memory: memoryOptions(c, body, from, text),
+    cachePolicy,
+  };
+
+  // Normalize inputs (documents are never cut inside a tag or entity)
+  const normalizedText = format === 'text'
+    ? text.trim().substring(0, 5000)
+    : truncateDocument(text.trim(), 5000, format);
+
+  // Mask do-not-translate tokens ({name}, %s, tags, URLs, <dnt> spans...).
+  // Documents are split into text runs first and each run is protected.
+  let protectedText: ProtectedText;
+  let document: ParsedDocument | null = null;
+  let unitProtection: ProtectedText[] = [];
+  try {
+    const protectOptions = typeof protect === 'object' ? protect : {};
+    if (format !== 'text') {
+      document = parseDocument(normalizedText, format, { translateAttributes });
+      unitProtection = document.units.map(unit => protect === false
+        ? { text: unit.text, placeholders: [] }
+        : protectText(unit.text, protectOptions, unit.placeholders.length));
+      protectedText = { text: normalizedText, placeholders: unitProtection.flatMap(p => p.placeholders) };
+    } else {
+      protectedText = protect === false
+        ? { text: normalizedText, placeholders: [] }
+        : protectText(normalizedText, protectOptions);
     }
+  } catch (err: any) {
+    return { error: c.json({ error: err.message }, 400) };
+  }
+
+  const cacheInputs: TranslationCacheInputs = {
+    text: normalizedText,
+    context,
+    glossary: glossaryCacheInput(glossary),
+    protect: protectionCacheInput(protectedText, protect),
+    document: documentCacheInput(format, translateAttributes),
+    memory: segmentOptions.memory?.reuseScore ?? false,
+    qa: qa || undefined,
+    alternatives: alternatives > 1 ? alternatives : undefined,
+  };
+
+  return {
+    prepared: {
+      body,
+      text: normalizedText,
+      from,
+      format,
+      glossary,
+      protectedText,
+      document,
+      unitProtection,
+      cachePolicy,
+      segmentOptions,
+      cacheInputs,
+      qa,
+      alternatives,
+      dictionary: await dictionaryPass(c, normalizedText, from),
+    },
+  };
+}
 
-    // 3. Use Cloudflare AI for complex translations (no API key needed)
-    // Try partial dictionary translation for words we know
-    const partialResult = words.map(word => {
-      const dictTranslation = translateWord(word, to);
-      return dictTranslation
-        ? { word, translated: dictTranslation.translated, source: 'dictionary' as const }
-        : { word, translated: word, source: 'unknown' as const };
+/**
+ * Translate a prepared request into one language: cache, then document,
+ * dictionary or model. With `stream`, stops where the model would be called.
+ */
+async function translateForTarget(
+  c: any,
+  p: PreparedTranslation,
+  to: string,
+  stream: boolean = false
+): Promise<TargetOutcome> {
+  const { text: normalizedText, from, glossary, protectedText, cachePolicy, qa, alternatives } = p;
+  const context = p.body.context;
+  const cacheKey = await translationCacheKey(from, to, p.cacheInputs);
+
+  // QA mode only caches segments once the whole result has passed
+  const segmentOptions: SegmentOptions = { ...p.segmentOptions, deferredCacheWrites: qa ? [] : undefined };
+
+  // 1. Check KV cache first (unless the policy says otherwise)
+  if (cachePolicy.read) {
+    const cached = await getCachedEntry(c, cacheKey, {
+      key: () => legacyTranslationCacheKey(from, to, p.cacheInputs),
+      matches: (entry) => entry.original === normalizedText,
     });
+    const freshness = cached ? cacheFreshness(cachePolicy, cached.age) : 'expired';
 
-    const hasUnknown = partialResult.some(r => r.source === 'unknown');
-    let translatedText: string;
-
-    if (hasUnknown) {
-      // Use CF AI for full translation
-      translatedText = await translateWithCF(c, normalizedText, from, to, context);
-
-      // Store unknown words for learning (single words only)
-      const unknownWords = partialResult.filter(r => r.source === 'unknown');
-      if (c.env.LEARNED_WORDS_KV && unknownWords.length > 0) {
-        // For each unknown single word, learn its translation
-        const translatedParts = translatedText.split(/\s+/);
-        for (let i = 0; i < unknownWords.length && i < translatedParts.length; i++) {
-          const unknownWord = unknownWords[i].word;
-          // Only store single words (not phrases)
-          if (unknownWord.length >= 2 && unknownWord.length <= 30 && /^[a-z]+$/i.test(unknownWord)) {
-            // Try to get full translations for all languages
-            const allTranslations: Record<string, string> = { [to]: translatedParts[i] };
-
-            // Store the learned word
-            const { shouldTriggerPR, pendingCount } = await storeLearnedWord(
-              c.env.LEARNED_WORDS_KV,
-              unknownWord,
-              allTranslations,
-              { sourceLanguage: from, context: normalizedText.substring(0, 100) }
-            );
-
-            // Check if we should trigger GitHub PR
-            if (shouldTriggerPR && c.env.GITHUB_TOKEN && c.env.GITHUB_OWNER && c.env.GITHUB_REPO) {
-              // Fire and forget - don't block the response
-              triggerDictionaryPR(c.env).catch(err => console.error('[LEARN] PR trigger failed:', err));
-            }
-          }
-        }
+    if (cached && freshness !== 'expired') {
+      const headers: Record<string, string> = { 'X-Cache': freshness === 'fresh' ? 'HIT' : 'STALE' };
+      if (cached.age !== null) {
+        headers['Age'] = String(cached.age);
+      }
+      if (freshness === 'stale') {
+        revalidateInBackground(c, p, to);
       }
+      traceCacheHit(c);
+      return { result: { ...cached.value, cached: true }, headers };
+    }
+  }
+
+  // HTML / Markdown: translate the text runs and re-serialise the markup
+  if (p.document) {
+    const { translated, model, validationErrors } = await translateDocument(
+      c, p.document, p.unitProtection, from, to, segmentOptions
+    );
+
+    const result: TranslationResponse = {
+      original: normalizedText,
+      translated,
+      from_language: from,
+      to_language: to,
+      cached: false,
+      source: 'api',
+      model,
+      format: p.format,
+      glossary: summariseGlossary(glossary, normalizedText, translated, to),
+      validation_errors: validationErrors.length > 0 ? validationErrors : undefined,
+      // Markup isn't back-translated; documents get the static checks only
+      quality: qa ? await assessQuality(c, normalizedText, translated, from, to, false) : undefined,
+    };
+
+    if (cachePolicy.write && validationErrors.length === 0 && result.quality?.passed !== false) {
+      await writeDeferredCache(segmentOptions);
+      await putCache(c, cacheKey, JSON.stringify(result), normalizedText);
+    }
+
+    return { result, headers: { 'X-Cache': 'MISS', 'X-Translation-Mode': p.format } };
+  }
+
+  // 2. Try dictionary-based translation for simple words/phrases
+  const { text: dictionaryText, translated: dictionaryWords, notFound } = translateDictionaryText(p.dictionary, to);
+
+  // Check if ALL words are in dictionary (for short texts). Texts containing
+  // glossary terms skip this so the glossary translation always wins.
+  const hasGlossaryTerms = !!glossary && findGlossaryMatches(normalizedText, glossary.terms || [], to).length > 0;
+  const hasProtectedTokens = protectedText.placeholders.length > 0;
+  if (p.dictionary.layout.words.length <= DICTIONARY_MAX_WORDS && isLanguagePairSupported(from, to) && !hasGlossaryTerms && !hasProtectedTokens) {
+    // If all words found in dictionary, use dictionary translation
+    if (dictionaryText !== null && dictionaryWords.length > 0) {
+      const translatedText = dictionaryText;
+      meterUsage(c, 'dictionary', normalizedText.length);
 
       const result: TranslationResponse = {
         original: normalizedText,
         translated: translatedText,
-        from_language: from,
+        from_language: from === 'auto' ? 'en' : from,
         to_language: to,
         cached: false,
-        source: 'api',
-        words: partialResult.map(r => ({
-          original: r.word,
-          translated: r.translated,
-          hasEtymology: !!getDictEtymology(r.word),
+        source: 'dictionary',
+        model: null,
+        words: dictionaryWords.map(t => ({
+          original: t.original,
+          translated: t.translated,
+          hasEtymology: !!t.etymology,
+          confidence: t.pivot || t.inflection ? t.confidence : undefined,
+          pivot: t.pivot,
+          alternatives: t.alternatives,
+          lemma: t.lemma,
+          inflection: t.inflection,
+          reinflected: t.reinflected,
         })),
+        quality: qa ? await assessQuality(c, normalizedText, translatedText, from, to, false) : undefined,
+        alternatives: alternatives > 1
+          ? await translationAlternatives(c, normalizedText, from, to, { translated: translatedText, model: null }, alternatives, context)
+          : undefined,
       };
 
-      await c.env.CACHE_KV.put(cacheKey, JSON.stringify(result), {
-        expirationTtl: parseInt(c.env.CACHE_TTL_SECONDS) || 86400,
-      });
+      // Cache the dictionary result
+      if (cachePolicy.write && result.quality?.passed !== false) {
+        await putCache(c, cacheKey, JSON.stringify(result), normalizedText);
+      }
 
-      return c.json(result, 200, {
-        'X-Cache': 'MISS',
-        'X-Translation-Mode': 'dictionary-partial',
-      });
+      return { result, headers: { 'X-Cache': 'MISS', 'X-Translation-Mode': 'dictionary' } };
     }
+  }
+
+  // 3. Use the provider chain for complex translations (no API key needed)
+  if (stream) {
+    return { stream: true, cacheKey, segmentOptions };
+  }
 
-    // 4. Call OpenAI for full translation
-    const translation = await translateWithCF(c, normalizedText, from, to, context);
+  if (notFound.length > 0) {
+    // Translate sentence by sentence so shared sentences hit the cache
+    const { translated: translatedText, segments, validationErrors } = await translateProtected(
+      c, normalizedText, protectedText, from, to, segmentOptions
+    );
+    const alignment = await alignWords(c, normalizedText, translatedText, from, to);
+    const quality = qa ? await assessQuality(c, normalizedText, translatedText, from, to) : undefined;
 
-    // Build word data for the response
-    const translatedWords = translation.split(/\s+/);
-    const wordData = translatedWords.map((tw, i) => {
-      const originalWord = words[i] || tw;
-      return {
-        original: originalWord,
-        translated: tw,
-        hasEtymology: !!getDictEtymology(originalWord),
-      };
-    });
+    // Store unknown words for learning (single words only, never from failed QA)
+    if (quality?.passed !== false) {
+      await learnUnknownWords(c, alignment, from, to, normalizedText);
+    }
 
     const result: TranslationResponse = {
       original: normalizedText,
-      translated: translation,
+      translated: translatedText,
       from_language: from,
       to_language: to,
       cached: false,
       source: 'api',
-      words: wordData,
+      model: summariseModel(segments),
+      words: alignmentToWords(alignment, from),
+      segments,
+      alignment,
+      glossary: summariseGlossary(glossary, normalizedText, translatedText, to),
+      validation_errors: validationErrors.length > 0 ? validationErrors : undefined,
+      tm_match: summariseMemoryMatches(segments),
+      quality,
+      alternatives: alternatives > 1
+        ? await translationAlternatives(c, normalizedText, from, to, { translated: translatedText, model: summariseModel(segments) }, alternatives, context)
+        : undefined,
     };
 
-    // Cache the result
-    await c.env.CACHE_KV.put(cacheKey, JSON.stringify(result), {
-      expirationTtl: parseInt(c.env.CACHE_TTL_SECONDS) || 86400,
-    });
+    // Never cache output with lost or duplicated placeholders or failed QA
+    if (cachePolicy.write && validationErrors.length === 0 && quality?.passed !== false) {
+      await writeDeferredCache(segmentOptions);
+      await putCache(c, cacheKey, JSON.stringify(result), normalizedText);
+    }
 
-    return c.json(result, 200, {
-      'X-Cache': 'MISS',
-    });
-  } catch (err: any) {
-    console.error('[TRANSLATE] Error:', err);
-    return c.json({ error: 'Translation failed', message: err.message }, 500);
+    return { result, headers: { 'X-Cache': 'MISS', 'X-Translation-Mode': 'dictionary-partial' } };
   }
-});
+
+  // 4. Full model translation, one sentence at a time
+  const { translated: translation, segments, validationErrors } = await translateProtected(
+    c, normalizedText, protectedText, from, to, segmentOptions
+  );
+
+  // Build word data for the response from the source/translation alignment
+  const alignment = await alignWords(c, normalizedText, translation, from, to);
+
+  const result: TranslationResponse = {
+    original: normalizedText,
+    translated: translation,
+    from_language: from,
+    to_language: to,
+    cached: false,
+    source: 'api',
+    model: summariseModel(segments),
+    words: alignmentToWords(alignment, from),
+    segments,
+    alignment,
+    glossary: summariseGlossary(glossary, normalizedText, translation, to),
+    validation_errors: validationErrors.length > 0 ? validationErrors : undefined,
+    tm_match: summariseMemoryMatches(segments),
+    quality: qa ? await assessQuality(c, normalizedText, translation, from, to) : undefined,
+    alternatives: alternatives > 1
+      ? await translationAlternatives(c, normalizedText, from, to, { translated: translation, model: summariseModel(segments) }, alternatives, context)
+      : undefined,
+  };
+
+  // Cache the result (unless placeholders were damaged or QA failed)
+  if (cachePolicy.write && validationErrors.length === 0 && result.quality?.passed !== false) {
+    await writeDeferredCache(segmentOptions);
+    await putCache(c, cacheKey, JSON.stringify(result), normalizedText);
+  }
+
+  return { result, headers: { 'X-Cache': 'MISS' } };
+}
+
+/**
+ * Multi-target /translate: TARGET_CONCURRENCY languages at a time, each
+ * cached under its single-target key. Failed targets are listed in `errors`.
+ */
+async function translateTargets(c: any, p: PreparedTranslation, targets: string[]): Promise<Response> {
+  const results = new Map<string, TranslationResponse>();
+  const errors: Record<string, string> = {};
+  const cacheStates = new Set<string>();
+
+  for (let i = 0; i < targets.length; i += TARGET_CONCURRENCY) {
+    const chunk = targets.slice(i, i + TARGET_CONCURRENCY);
+    await Promise.all(chunk.map(async (to) => {
+      try {
+        const outcome = await translateForTarget(c, p, to);
+        if ('result' in outcome) {
+          results.set(to, outcome.result);
+          cacheStates.add(outcome.headers['X-Cache']);
+        }
+      } catch (err: any) {
+        console.error(`[TRANSLATE] ${to} failed:`, err);
+        errors[to] = err.message;
+      }
+    }));
+  }
+
+  if (results.size === 0) {
+    return c.json({ error: 'Translation failed', errors }, 500);
+  }
+
+  const translations = Object.fromEntries(targets.filter(to => results.has(to)).map(to => [to, results.get(to)!]));
+  return c.json({
+    original: p.text,
+    from_language: p.from,
+    translations,
+    errors: Object.keys(errors).length > 0 ? errors : undefined,
+    count: results.size,
+  }, 200, {
+    'X-Cache': cacheStates.size === 1 ? [...cacheStates][0] : 'PARTIAL',
+  });
+}
 
 // Batch translate
-app.post('/translate/batch', async (c) => {
+app.post('/translate/batch', requireScope('translate'), rateLimit(), trackUsage(), async (c) => {
   try {
-    const { texts, to, from = 'auto' } = await c.req.json<{
+    const { texts, to, from = 'auto', glossaryId } = await c.req.json<{
       texts: string[];
       to: string;
       from?: string;
+      glossaryId?: number;
     }>();
 
     if (!texts || !Array.isArray(texts) || !to) {
@@ -1013,162 +1530,686 @@ app.post('/translate/batch', async (c) => {
       return c.json({ error: 'Maximum 50 texts per batch' }, 400);
     }
 
-    const sourceLanguage = from === 'auto' ? 'en' : from;
-
-    const results = await Promise.all(
-      texts.map(async (text) => {
-        const trimmedText = text.trim().toLowerCase();
-        const cacheKey = `${CACHE_VERSION}:trans:${sourceLanguage}:${to}:${hashString(trimmedText)}`;
-        const cached = await c.env.CACHE_KV.get(cacheKey);
-
-        if (cached) {
-          return { ...JSON.parse(cached), cached: true };
-        }
-
-        // Try dictionary lookup first for single words
-        const words = trimmedText.split(/\s+/);
-        let translated: string;
-        let translationSource: 'dictionary' | 'api' | 'stub' = 'stub';
-
-        if (words.length === 1) {
-          // Single word - try dictionary
-          const dictResult = translateWord(trimmedText, to);
-          if (dictResult && dictResult.translated !== trimmedText) {
-            translated = dictResult.translated;
-            translationSource = 'dictionary';
-          } else {
-            // Fall back to CF AI
-            translated = await translateWithCF(c, text, sourceLanguage, to);
-            translationSource = 'api';
-          }
-        } else {
-          // Multiple words - try word-by-word dictionary, then CF AI
-          const dictResults = translateWords(words, to);
-          const allFromDict = dictResults.notFound.length === 0;
-
-          if (allFromDict) {
-            translated = dictResults.translated.map(r => r.translated).join(' ');
-            translationSource = 'dictionary';
-          } else {
-            // Use CF AI for full translation
-            translated = await translateWithCF(c, text, sourceLanguage, to);
-            translationSource = 'api';
-          }
-        }
-
-        const result = {
-          original: text,
-          translated,
-          from_language: sourceLanguage,
-          to_language: to,
-          source: translationSource,
-          cached: false,
-        };
+    const { glossary, error: glossaryError } = await resolveGlossary(c, glossaryId);
+    if (glossaryError) {
+      return glossaryError;
+    }
 
-        await c.env.CACHE_KV.put(cacheKey, JSON.stringify(result), {
-          expirationTtl: parseInt(c.env.CACHE_TTL_SECONDS) || 86400,
-        });
+    const sourceLanguage = from === 'auto' ? 'en' : from;
 
-        return result;
-      })
-    );
+    const results = await translateBatch(c, texts.map(text => ({ text })), sourceLanguage, to, glossary);
 
     return c.json({ translations: results, count: results.length });
   } catch (err: any) {
+    if (err instanceof QuotaExceededError) {
+      return quotaExceededResponse(c, err);
+    }
     console.error('[BATCH] Error:', err);
     return c.json({ error: 'Batch translation failed' }, 500);
   }
 });
 
-// Detect language
-app.post('/detect', async (c) => {
+// Translate a localisation file (i18next JSON, PO, XLIFF, ARB, .strings, strings.xml)
+app.post('/translate/file', requireScope('translate'), rateLimit(), trackUsage(), async (c) => {
   try {
-    const { text } = await c.req.json<{ text: string }>();
+    const { format, content, to, from = 'auto', glossaryId } = await c.req.json<{
+      format: LocalisationFormat;
+      content: string;
+      to: string | string[];
+      from?: string;
+      glossaryId?: number;
+    }>();
 
-    if (!text) {
-      return c.json({ error: 'text required' }, 400);
+    const targets = Array.isArray(to) ? to : [to];
+
+    if (!content || typeof content !== 'string' || targets.length === 0 || targets.some(t => !t)) {
+      return c.json({ error: 'content and to language(s) required' }, 400);
     }
 
-    // Simple language detection heuristics (would use OpenAI in production)
-    const detected = detectLanguage(text);
+    if (!LOCALISATION_FORMATS.includes(format)) {
+      return c.json({ error: `format must be one of: ${LOCALISATION_FORMATS.join(', ')}` }, 400);
+    }
 
-    return c.json({
-      text: text.substring(0, 100),
-      detected_language: detected.code,
-      confidence: detected.confidence,
-    });
+    if (targets.length > MAX_FILE_TARGETS) {
+      return c.json({ error: `Maximum ${MAX_FILE_TARGETS} target languages per file` }, 400);
+    }
+
+    if (content.length > MAX_FILE_SIZE) {
+      return c.json({ error: `File too large (max ${MAX_FILE_SIZE} characters)` }, 413);
+    }
+
+    const { glossary, error: glossaryError } = await resolveGlossary(c, glossaryId);
+    if (glossaryError) {
+      return glossaryError;
+    }
+
+    const sourceLanguage = from !== 'auto' ? from : declaredSourceLanguage(content, format) || 'en';
+    const files = [];
+
+    for (const target of targets) {
+      let units: LocalisationUnit[];
+      try {
+        units = extractUnits(content, format, target);
+      } catch (err: any) {
+        return c.json({ error: `Invalid ${format} file`, message: err.message }, 400);
+      }
+
+      if (units.length > MAX_FILE_UNITS) {
+        return c.json({ error: `Maximum ${MAX_FILE_UNITS} translatable units per file` }, 400);
+      }
+
+      // Identical strings (plural forms, repeated labels) are translated once
+      const uniqueItems = new Map<string, BatchItem>();
+      for (const unit of units) {
+        const item = { text: unit.source, context: unitContext(unit) };
+        uniqueItems.set(batchItemKey(item), item);
+      }
+
+      const items = [...uniqueItems.values()];
+      const results = await translateBatch(c, items, sourceLanguage, target, glossary, protectionFor(format));
+      const byKey = new Map(items.map((item, i) => [batchItemKey(item), results[i]]));
+
+      const translations = new Map<string, string>();
+      const validationErrors: Array<PlaceholderValidationError & { id: string }> = [];
+      for (const unit of units) {
+        const result = byKey.get(batchItemKey({ text: unit.source, context: unitContext(unit) }))!;
+        translations.set(unit.id, result.translated);
+        for (const error of result.validation_errors || []) {
+          validationErrors.push({ id: unit.id, ...error });
+        }
+      }
+
+      files.push({
+        to_language: target,
+        content: writeTranslations(content, format, target, translations),
+        units: units.length,
+        validation_errors: validationErrors.length > 0 ? validationErrors : undefined,
+      });
+    }
+
+    return c.json({ format, from_language: sourceLanguage, files });
   } catch (err: any) {
-    console.error('[DETECT] Error:', err);
-    return c.json({ error: 'Language detection failed' }, 500);
+    if (err instanceof QuotaExceededError) {
+      return quotaExceededResponse(c, err);
+    }
+    console.error('[FILE] Error:', err);
+    return c.json({ error: 'File translation failed', message: err.message }, 500);
   }
 });
 
-// List supported languages
-app.get('/languages', (c) => {
-  return c.json({
-    languages: SUPPORTED_LANGUAGES,
-    default: 'en',
-  });
-});
+// Translate SRT / WebVTT subtitles, keeping timings and re-wrapping cue text
+app.post('/translate/subtitles', requireScope('translate'), rateLimit(), trackUsage(), async (c) => {
+  try {
+    const body = await c.req.json<{
+      content: string;
+      to: string;
+      from?: string;
+      format?: SubtitleFormat;
+      maxCharsPerLine?: number;
+      maxLinesPerCue?: number;
+      glossaryId?: number;
+    }>();
+    const { content, to, from = 'auto', format, glossaryId } = body;
 
-// Clear translation cache (admin only)
-app.delete('/cache', async (c) => {
-  const adminKey = c.req.header('X-Admin-Key');
+    if (!content || typeof content !== 'string' || !to) {
+      return c.json({ error: 'content and to language required' }, 400);
+    }
 
-  // Simple admin check - in production, use proper auth
-  if (!adminKey) {
-    return c.json({ error: 'Admin key required' }, 401);
-  }
+    if (format && !SUBTITLE_FORMATS.includes(format)) {
+      return c.json({ error: `format must be one of: ${SUBTITLE_FORMATS.join(', ')}` }, 400);
+    }
 
-  // Note: KV doesn't support bulk delete, would need to track keys
-  return c.json({
-    message: 'Cache clearing not implemented - KV requires individual key deletion',
-    suggestion: 'Set shorter TTL or use Cloudflare Dashboard',
-  });
-});
+    if (content.length > MAX_FILE_SIZE) {
+      return c.json({ error: `File too large (max ${MAX_FILE_SIZE} characters)` }, 413);
+    }
 
-// ============ D1 DICTIONARY EXPORT ENDPOINTS ============
+    const maxCharsPerLine = Math.min(Math.max(body.maxCharsPerLine || DEFAULT_WRAP.maxCharsPerLine, 10), 200);
+    const maxLinesPerCue = Math.min(Math.max(body.maxLinesPerCue || DEFAULT_WRAP.maxLinesPerCue, 1), 10);
 
-// Export dictionary to JSON (admin only)
-app.get('/api/dictionary/export', async (c) => {
-  const adminKey = c.req.header('X-Admin-Key');
-  if (!adminKey) {
-    return c.json({ error: 'Admin key required' }, 401);
-  }
+    const { glossary, error: glossaryError } = await resolveGlossary(c, glossaryId);
+    if (glossaryError) {
+      return glossaryError;
+    }
 
-  if (!c.env.LINGUA_DB) {
-    return c.json({ error: 'D1 database not configured' }, 503);
-  }
+    let document: SubtitleDocument;
+    try {
+      document = parseSubtitles(content, format);
+    } catch (err: any) {
+      return c.json({ error: 'Invalid subtitle file', message: err.message }, 400);
+    }
 
-  const coreOnly = c.req.query('coreOnly') === 'true';
+    // Cue text goes through the batch path, so repeated lines hit the cache
+    const sourceLanguage = from === 'auto' ? 'en' : from;
+    const units = subtitleUnits(document);
+    const results = await translateBatch(
+      c, units.map(unit => ({ text: unit.text })), sourceLanguage, to, glossary, SUBTITLE_PROTECTION
+    );
 
-  const exportData = await exportDictionaryToJSON(c.env.LINGUA_DB, { coreOnly });
+    const translations = new Map(units.map((unit, i) => [unit.id, results[i].translated]));
+    const validationErrors = results.flatMap((result, i) =>
+      (result.validation_errors || []).map(error => ({ id: units[i].id, ...error }))
+    );
 
-  return c.json(exportData, 200, {
-    'Content-Disposition': `attachment; filename="lingua-dictionary-${Date.now()}.json"`,
-  });
-});
+    const rendered = renderSubtitles(document, translations, { maxCharsPerLine, maxLinesPerCue, language: to });
 
-// Export learned words to JSON (admin only)
-app.get('/api/learned/export', async (c) => {
-  const adminKey = c.req.header('X-Admin-Key');
-  if (!adminKey) {
-    return c.json({ error: 'Admin key required' }, 401);
+    return c.json({
+      format: document.format,
+      from_language: sourceLanguage,
+      to_language: to,
+      content: rendered.text,
+      cues: document.blocks.filter(block => typeof block !== 'string').length,
+      cached: results.filter(result => result.cached).length,
+      overflow: rendered.overflow.length > 0 ? rendered.overflow : undefined,
+      validation_errors: validationErrors.length > 0 ? validationErrors : undefined,
+    });
+  } catch (err: any) {
+    if (err instanceof QuotaExceededError) {
+      return quotaExceededResponse(c, err);
+    }
+    console.error('[SUBTITLES] Error:', err);
+    return c.json({ error: 'Subtitle translation failed', message: err.message }, 500);
   }
+});
 
+// Human post-edit: correct a machine translation everywhere it was stored
+app.post('/translate/feedback', requireScope('learn:write'), rateLimit(), trackUsage(), async (c) => {
   if (!c.env.LINGUA_DB) {
     return c.json({ error: 'D1 database not configured' }, 503);
   }
 
-  const exportData = await exportLearnedWordsToJSON(c.env.LINGUA_DB);
-
-  return c.json(exportData, 200, {
+  try {
+    const { original, machine, corrected, to, from = 'auto', glossaryId } = await c.req.json<{
+      original: string;
+      machine: string;
+      corrected: string;
+      to: string;
+      from?: string;
+      glossaryId?: number;
+    }>();
+
+    if (!original || !machine || !corrected || !to) {
+      return c.json({ error: 'original, machine, corrected and to language required' }, 400);
+    }
+
+    // The audit trail records the authenticated key, never a caller-supplied name
+    const reviewer = c.get('principal').id;
+
+    const { glossary, error: glossaryError } = await resolveGlossary(c, glossaryId);
+    if (glossaryError) {
+      return glossaryError;
+    }
+
+    const normalizedText = original.trim().substring(0, 5000);
+    const correctedText = corrected.trim();
+    const sourceLanguage = from === 'auto' ? detectLanguage(normalizedText).code : from;
+
+    // Word pairs the reviewer changed, learned with user confidence
+    const alignment = await alignWords(c, normalizedText, correctedText, sourceLanguage, to);
+    const learned = await learnCorrectedWords(c, alignment, machine, sourceLanguage, to, normalizedText);
+
+    // 1. Overwrite the cached translations so the correction is served from now on
+    await overwriteCachedTranslations(c, normalizedText, correctedText, from, sourceLanguage, to, glossary, alignment);
+
+    // 2. Store the pair in the translation memory (sentence pairs when they line up)
+    const sourceSegments = segmentText(normalizedText, sourceLanguage);
+    const targetSegments = segmentText(correctedText, to);
+    const pairs = sourceSegments.length === targetSegments.length
+      ? sourceSegments.map((segment, i) => ({ source: segment.text, target: targetSegments[i].text }))
+      : [{ source: normalizedText, target: correctedText }];
+
+    let tmStored = 0;
+    for (const pair of pairs) {
+      const stored = await storeMemoryEntry(c.env.LINGUA_DB, {
+        sourceLanguage,
+        targetLanguage: to,
+        ...pair,
+        provenance: 'human',
+      }).catch(err => {
+        console.warn('[FEEDBACK] TM store failed:', err);
+        return false;
+      });
+      if (stored) tmStored++;
+    }
+
+    // 3. Audit trail
+    const id = await recordFeedback(c.env.LINGUA_DB, {
+      sourceLanguage,
+      targetLanguage: to,
+      original: normalizedText,
+      machine,
+      corrected: correctedText,
+      reviewer,
+      glossaryId: glossary?.id ?? null,
+      wordPairs: learned,
+    });
+
+    return c.json({ id, cache_updated: true, tm_stored: tmStored, learned });
+  } catch (err: any) {
+    if (err instanceof QuotaExceededError) {
+      return quotaExceededResponse(c, err);
+    }
+    console.error('[FEEDBACK] Error:', err);
+    return c.json({ error: 'Feedback failed', message: err.message }, 500);
+  }
+});
+
+// List post-edit feedback (admin only)
+app.get('/translate/feedback', requireScope('export'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
+  }
+
+  const feedback = await listFeedback(c.env.LINGUA_DB, {
+    reviewer: c.req.query('reviewer'),
+    limit: Math.min(parseInt(c.req.query('limit') || '50') || 50, 500),
+    offset: parseInt(c.req.query('offset') || '0') || 0,
+  });
+
+  return c.json({ feedback, count: feedback.length });
+});
+
+// Detect language
+app.post('/detect', requireScope('translate'), rateLimit(), trackUsage(), async (c) => {
+  try {
+    const { text } = await c.req.json<{ text: string }>();
+
+    if (!text) {
+      return c.json({ error: 'text required' }, 400);
+    }
+
+    // Simple language detection heuristics (would use OpenAI in production)
+    const detected = detectLanguage(text);
+
+    return c.json({
+      text: text.substring(0, 100),
+      detected_language: detected.code,
+      confidence: detected.confidence,
+    });
+  } catch (err: any) {
+    console.error('[DETECT] Error:', err);
+    return c.json({ error: 'Language detection failed' }, 500);
+  }
+});
+
+// List supported languages
+app.get('/languages', (c) => {
+  return c.json({
+    languages: SUPPORTED_LANGUAGES,
+    default: 'en',
+  });
+});
+
+// Purge cached translations (admin only). Runs as a job: the first chunk is
+// processed in the background, and polling the job resumes it until done.
+//   scope=all | version (version) | route (route, version) | pair (from, to, version) | text (text)
+app.delete('/cache', requireScope('admin:cache'), async (c) => {
+  const body = await c.req.json<Record<string, string>>().catch(() => ({} as Record<string, string>));
+  const param = (name: string) => body[name] ?? c.req.query(name);
+  const version = param('version') || CACHE_VERSION;
+
+  let scope: PurgeScope;
+  switch (param('scope')) {
+    case 'all':
+      scope = { type: 'all' };
+      break;
+    case 'version':
+      scope = { type: 'version', version };
+      break;
+    case 'route': {
+      const route = param('route') as CacheRoute;
+      if (!CACHE_ROUTES.includes(route)) {
+        return c.json({ error: `route must be one of: ${CACHE_ROUTES.join(', ')}` }, 400);
+      }
+      scope = { type: 'route', version, route };
+      break;
+    }
+    case 'pair': {
+      const from = param('from');
+      const to = param('to');
+      if (!from || !to) {
+        return c.json({ error: 'from and to language required' }, 400);
+      }
+      scope = { type: 'pair', version, from, to };
+      break;
+    }
+    case 'text': {
+      const text = param('text');
+      if (!text) {
+        return c.json({ error: 'text required' }, 400);
+      }
+      // The text itself and each of its sentences (per-segment cache)
+      const texts = [text, ...segmentText(text.trim()).map(segment => segment.text)];
+      scope = { type: 'text', textHashes: await Promise.all(texts.map(t => sha256Hex(indexText(t)))) };
+      break;
+    }
+    default:
+      return c.json({ error: 'scope must be one of: all, version, route, pair, text' }, 400);
+  }
+
+  const job = await createPurgeJob(c.env.CACHE_KV, scope);
+  runInBackground(c, runPurgeJob(c.env.CACHE_KV, job.id));
+
+  return c.json({ job, progress: `/cache/jobs/${job.id}` }, 202);
+});
+
+// Purge job progress; an unfinished job is resumed in the background
+app.get('/cache/jobs/:id', requireScope('admin:cache'), async (c) => {
+  const job = await getPurgeJob(c.env.CACHE_KV, c.req.param('id'));
+  if (!job) {
+    return c.json({ error: 'Purge job not found' }, 404);
+  }
+
+  if (job.status === 'running') {
+    runInBackground(c, runPurgeJob(c.env.CACHE_KV, job.id));
+  }
+
+  return c.json({ job });
+});
+
+// ============ PROVIDER CONFIGURATION ============
+
+// Effective provider config and the providers available here
+app.get('/providers', requireScope('translate'), async (c) => {
+  const { config, providers } = await requestProviders(c);
+  return c.json({
+    config,
+    available: [...providers.keys()],
+    models: PROVIDER_MODELS,
+  });
+});
+
+// Update the stored config (env vars still apply where KV doesn't override)
+app.put('/providers', requireScope('admin:providers'), async (c) => {
+  if (!c.env.TRANSLATIONS_KV) {
+    return c.json({ error: 'Provider config storage not configured' }, 503);
+  }
+
+  let updates: Partial<ProviderConfig>;
+  try {
+    updates = parseProviderConfig(await c.req.json());
+  } catch (err: any) {
+    return c.json({ error: err.message }, 400);
+  }
+
+  const stored = await setProviderConfig(c.env.TRANSLATIONS_KV, updates);
+  const config = await getProviderConfig(c.env);
+  return c.json({ config, stored, message: 'Provider configuration updated' });
+});
+
+// Routing table, or with ?from&to&length the providers that text would use
+app.get('/providers/routes', requireScope('translate'), async (c) => {
+  const { config, providers } = await requestProviders(c);
+  const from = c.req.query('from');
+  const to = c.req.query('to');
+
+  if (!from || !to) {
+    return c.json({ routes: config.routes, chain: config.chain, timeoutMs: config.timeoutMs });
+  }
+
+  const length = parseInt(c.req.query('length') || '0', 10) || 0;
+  const resolved = resolveRoute(config, providers, from, to, length);
+  return c.json({
+    from,
+    to,
+    length,
+    route: matchRoute(config, from, to, length),
+    providers: resolved.chain.map(provider => ({ id: provider.id, model: provider.model })),
+    timeoutMs: resolved.timeoutMs,
+  });
+});
+
+// Replace the routing table
+app.put('/providers/routes', requireScope('admin:providers'), async (c) => {
+  if (!c.env.TRANSLATIONS_KV) {
+    return c.json({ error: 'Provider config storage not configured' }, 503);
+  }
+
+  const body = await c.req.json<{ routes?: unknown }>();
+  let routes: ProviderConfig['routes'];
+  try {
+    routes = parseProviderConfig({ routes: body.routes ?? null }).routes!;
+  } catch (err: any) {
+    return c.json({ error: err.message }, 400);
+  }
+
+  await setProviderConfig(c.env.TRANSLATIONS_KV, { routes });
+  return c.json({ routes, message: 'Routing table updated' });
+});
+
+// ============ API KEY & USAGE ENDPOINTS ============
+
+// Maximum grace period for the old secret after a rotation (7 days)
+const MAX_ROTATION_GRACE_SECONDS = 7 * 24 * 3600;
+
+// Who am I? (scopes of the presented key)
+app.get('/auth/whoami', requireScope('translate'), (c) => {
+  return c.json(c.get('principal'));
+});
+
+// Remaining rate limit and monthly quota for the caller (null = unlimited)
+app.get('/quota', requireScope('translate'), async (c) => {
+  const principal = c.get('principal');
+  const limits = resolveLimits(principal);
+  const store = counterStore(c.env);
+  const subject = rateLimitSubject(c, principal);
+  const now = Date.now();
+
+  const bucket = await peekBucket(store, subject, limits.requestsPerMinute, now);
+  const usage = await getQuotaUsage(store, subject, now);
+  const counter = (used: number, limit: number) => ({
+    used,
+    limit: limit === Infinity ? null : limit,
+    remaining: limit === Infinity ? null : Math.max(limit - used, 0),
+  });
+
+  return c.json({
+    principal: principal.id,
+    rate_limit: {
+      limit: bucket.limit === Infinity ? null : bucket.limit,
+      remaining: bucket.limit === Infinity ? null : bucket.remaining,
+      reset: bucket.resetSeconds,
+    },
+    quota: {
+      month: usage.month,
+      resets_at: quotaResetsAt(now).toISOString(),
+      requests: usage.requests,
+      ai_chars: counter(usage.aiChars, limits.aiCharsPerMonth),
+      dictionary_chars: counter(usage.dictionaryChars, limits.dictionaryCharsPerMonth),
+    },
+  });
+});
+
+// Usage report aggregated by day, key, language pair, model, source or route
+app.get('/usage', requireScope('export'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
+  }
+
+  const groupBy = (c.req.query('groupBy') || 'day') as UsageGrouping;
+  if (!USAGE_GROUPINGS.includes(groupBy)) {
+    return c.json({ error: `groupBy must be one of: ${USAGE_GROUPINGS.join(', ')}` }, 400);
+  }
+
+  const since = c.req.query('since');
+  const until = c.req.query('until');
+  if ([since, until].some(date => date && !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+    return c.json({ error: 'since and until must be YYYY-MM-DD dates' }, 400);
+  }
+
+  const rows = await usageReport(c.env.LINGUA_DB, { groupBy, since, until, principal: c.req.query('key') });
+
+  return c.json({
+    groupBy,
+    since: since ?? null,
+    until: until ?? null,
+    total: rows.reduce((sum, row) => sum + row.requests, 0),
+    rows,
+  });
+});
+
+app.get('/auth/keys', requireScope('admin:keys'), async (c) => {
+  if (!c.env.API_KEYS_KV) {
+    return c.json({ error: 'API key storage not configured' }, 503);
+  }
+
+  const keys = await listApiKeys(c.env.API_KEYS_KV);
+  return c.json({ keys, count: keys.length });
+});
+
+// Issue a key - the plain key is only returned in this response
+app.post('/auth/keys', requireScope('admin:keys'), async (c) => {
+  if (!c.env.API_KEYS_KV) {
+    return c.json({ error: 'API key storage not configured' }, 503);
+  }
+
+  const body = await c.req.json<{ name: string; scopes: string[]; limits?: unknown; expiresInDays?: number }>();
+  if (!body.name || typeof body.name !== 'string') {
+    return c.json({ error: 'name required' }, 400);
+  }
+
+  try {
+    const scopes = parseScopes(body.scopes);
+    const limits = parseLimits(body.limits);
+    const expiresAt = body.expiresInDays
+      ? new Date(Date.now() + Math.max(Number(body.expiresInDays), 1) * 86400 * 1000).toISOString()
+      : null;
+
+    const { key, record } = await createApiKey(c.env.API_KEYS_KV, { name: body.name, scopes, limits, expiresAt });
+    return c.json({ key, ...record }, 201);
+  } catch (err: any) {
+    return c.json({ error: err.message }, 400);
+  }
+});
+
+// Replace a key's secret, optionally keeping the old one valid for a while
+app.post('/auth/keys/:id/rotate', requireScope('admin:keys'), async (c) => {
+  if (!c.env.API_KEYS_KV) {
+    return c.json({ error: 'API key storage not configured' }, 503);
+  }
+
+  const body = await c.req.json<{ graceSeconds?: number }>().catch(() => ({} as { graceSeconds?: number }));
+  const graceSeconds = Math.min(Math.max(Number(body.graceSeconds) || 0, 0), MAX_ROTATION_GRACE_SECONDS);
+
+  const rotated = await rotateApiKey(c.env.API_KEYS_KV, c.req.param('id'), graceSeconds);
+  if (!rotated) {
+    return c.json({ error: 'API key not found or revoked' }, 404);
+  }
+
+  return c.json({ key: rotated.key, ...rotated.record });
+});
+
+app.delete('/auth/keys/:id', requireScope('admin:keys'), async (c) => {
+  if (!c.env.API_KEYS_KV) {
+    return c.json({ error: 'API key storage not configured' }, 503);
+  }
+
+  const revoked = await revokeApiKey(c.env.API_KEYS_KV, c.req.param('id'));
+  if (!revoked) {
+    return c.json({ error: 'API key not found' }, 404);
+  }
+
+  return c.json(revoked);
+});
+
+// ============ D1 DICTIONARY EXPORT ENDPOINTS ============
+
+// Export dictionary to JSON (admin only)
+app.get('/api/dictionary/export', requireScope('export'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
+  }
+
+  const coreOnly = c.req.query('coreOnly') === 'true';
+
+  const exportData = await exportDictionaryToJSON(c.env.LINGUA_DB, { coreOnly });
+
+  return c.json(exportData, 200, {
+    'Content-Disposition': `attachment; filename="lingua-dictionary-${Date.now()}.json"`,
+  });
+});
+
+// Export learned words to JSON (admin only)
+app.get('/api/learned/export', requireScope('export'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
+  }
+
+  const exportData = await exportLearnedWordsToJSON(c.env.LINGUA_DB);
+
+  return c.json(exportData, 200, {
     'Content-Disposition': `attachment; filename="lingua-learned-${Date.now()}.json"`,
   });
 });
 
+// ============ TRANSLATION MEMORY ENDPOINTS ============
+
+// Import a TMX file into the translation memory (admin only)
+app.post('/tm/import', requireScope('learn:write'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
+  }
+
+  try {
+    // Raw TMX body, or JSON { tmx, provenance }
+    const isJson = (c.req.header('Content-Type') || '').includes('application/json');
+    const body = isJson ? await c.req.json<{ tmx: string; provenance?: TMProvenance }>() : { tmx: await c.req.text() };
+    const provenance = body.provenance ?? 'import';
+
+    if (!body.tmx) {
+      return c.json({ error: 'TMX content required' }, 400);
+    }
+
+    if (!TM_PROVENANCES.includes(provenance)) {
+      return c.json({ error: `provenance must be one of: ${TM_PROVENANCES.join(', ')}` }, 400);
+    }
+
+    let entries;
+    try {
+      entries = parseTmx(body.tmx, provenance);
+    } catch (err: any) {
+      return c.json({ error: 'Invalid TMX', message: err.message }, 400);
+    }
+
+    if (entries.length > MAX_TMX_IMPORT_ENTRIES) {
+      return c.json({ error: `Maximum ${MAX_TMX_IMPORT_ENTRIES} segment pairs per import`, found: entries.length }, 400);
+    }
+
+    let imported = 0;
+    for (const entry of entries) {
+      if (await storeMemoryEntry(c.env.LINGUA_DB, entry)) {
+        imported++;
+      }
+    }
+
+    return c.json({ imported, skipped: entries.length - imported, total: entries.length });
+  } catch (err: any) {
+    console.error('[TM] Import error:', err);
+    return c.json({ error: 'TMX import failed', message: err.message }, 500);
+  }
+});
+
+// Export the translation memory as TMX (admin only)
+app.get('/tm/export', requireScope('export'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
+  }
+
+  const from = c.req.query('from');
+  const entries = await listMemoryEntries(c.env.LINGUA_DB, {
+    sourceLanguage: from,
+    targetLanguage: c.req.query('to'),
+    limit: Math.min(parseInt(c.req.query('limit') || '10000') || 10000, 50000),
+    offset: parseInt(c.req.query('offset') || '0') || 0,
+  });
+
+  return c.body(buildTmx(entries, from || '*all*'), 200, {
+    'Content-Type': 'application/x-tmx+xml; charset=utf-8',
+    'Content-Disposition': `attachment; filename="lingua-tm-${Date.now()}.tmx"`,
+  });
+});
+
 // Get D1 dictionary stats
-app.get('/api/dictionary/stats', async (c) => {
+app.get('/api/dictionary/stats', requireScope('translate'), async (c) => {
   if (!c.env.LINGUA_DB) {
     // Fallback to static dictionary stats
     return c.json(getDictionaryStats());
@@ -1184,329 +2225,1678 @@ app.get('/api/dictionary/stats', async (c) => {
   });
 });
 
-// ============ LEARNED WORDS ENDPOINTS ============
+// ============ GLOSSARY ENDPOINTS ============
 
-// Get learning statistics and configuration
-app.get('/learned/stats', async (c) => {
-  if (!c.env.LEARNED_WORDS_KV) {
-    return c.json({ error: 'Learning system not configured' }, 503);
+// List glossaries
+app.get('/glossaries', requireScope('translate'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
   }
 
-  const [stats, config] = await Promise.all([
-    getLearnedStats(c.env.LEARNED_WORDS_KV),
-    getLearningConfig(c.env.LEARNED_WORDS_KV),
-  ]);
-  const dictStats = getDictionaryStats();
+  const glossaries = await listGlossaries(c.env.LINGUA_DB);
+  return c.json({ glossaries, count: glossaries.length });
+});
 
-  return c.json({
-    learning: stats,
-    dictionary: dictStats,
-    config,
-    bulkTiers: BULK_TIERS,
-  });
+// Create a glossary (optionally with terms)
+app.post('/glossaries', requireScope('glossary:write'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
+  }
+
+  const body = await c.req.json<{
+    name: string;
+    description?: string;
+    sourceLanguage?: string;
+    terms?: GlossaryTermInput[];
+  }>();
+
+  if (!body.name || !body.name.trim()) {
+    return c.json({ error: 'name required' }, 400);
+  }
+  if (body.terms !== undefined && !Array.isArray(body.terms)) {
+    return c.json({ error: 'terms must be an array' }, 400);
+  }
+
+  try {
+    const glossary = await createGlossary(c.env.LINGUA_DB, { ...body, createdBy: c.get('principal').id });
+    return c.json({ glossary }, 201);
+  } catch (err: any) {
+    if (/UNIQUE/i.test(err.message || '')) {
+      return c.json({ error: `Glossary '${body.name}' already exists` }, 409);
+    }
+    throw err;
+  }
 });
 
-// Get/Update learning configuration (admin only)
-app.get('/learned/config', async (c) => {
-  if (!c.env.LEARNED_WORDS_KV) {
-    return c.json({ error: 'Learning system not configured' }, 503);
+// Get a glossary with its terms
+app.get('/glossaries/:id', requireScope('translate'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
   }
 
-  const config = await getLearningConfig(c.env.LEARNED_WORDS_KV);
-  return c.json({ config, bulkTiers: BULK_TIERS });
+  const glossary = await getGlossary(c.env.LINGUA_DB, Number(c.req.param('id')));
+  if (!glossary) {
+    return c.json({ error: 'Glossary not found' }, 404);
+  }
+
+  return c.json({ glossary });
 });
 
-app.put('/learned/config', async (c) => {
-  const adminKey = c.req.header('X-Admin-Key');
-  if (!adminKey) {
-    return c.json({ error: 'Admin key required' }, 401);
+// Update glossary name/description
+app.put('/glossaries/:id', requireScope('glossary:write'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
   }
 
+  const id = Number(c.req.param('id'));
+  const { error } = await ownedGlossary(c, id);
+  if (error) {
+    return error;
+  }
+
+  const updates = await c.req.json<{ name?: string; description?: string; sourceLanguage?: string }>();
+  const glossary = await updateGlossary(c.env.LINGUA_DB, id, updates);
+  if (!glossary) {
+    return c.json({ error: 'Glossary not found' }, 404);
+  }
+
+  return c.json({ glossary, message: 'Glossary updated' });
+});
+
+// Delete a glossary and its terms
+app.delete('/glossaries/:id', requireScope('glossary:write'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
+  }
+
+  const id = Number(c.req.param('id'));
+  const { error } = await ownedGlossary(c, id);
+  if (error) {
+    return error;
+  }
+
+  const deleted = await deleteGlossary(c.env.LINGUA_DB, id);
+  if (!deleted) {
+    return c.json({ error: 'Glossary not found' }, 404);
+  }
+
+  return c.json({ message: 'Glossary deleted' });
+});
+
+// Add or replace terms
+app.post('/glossaries/:id/terms', requireScope('glossary:write'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
+  }
+
+  const id = Number(c.req.param('id'));
+  const { terms } = await c.req.json<{ terms: GlossaryTermInput[] }>();
+
+  if (!terms || !Array.isArray(terms)) {
+    return c.json({ error: 'terms array required' }, 400);
+  }
+
+  const { error } = await ownedGlossary(c, id);
+  if (error) {
+    return error;
+  }
+
+  const upserted = await upsertGlossaryTerms(c.env.LINGUA_DB, id, terms);
+  const glossary = await getGlossary(c.env.LINGUA_DB, id);
+  return c.json({ glossary, upserted, skipped: terms.length - upserted });
+});
+
+// Update a single term
+app.put('/glossaries/:id/terms/:termId', requireScope('glossary:write'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
+  }
+
+  const id = Number(c.req.param('id'));
+  const { error } = await ownedGlossary(c, id);
+  if (error) {
+    return error;
+  }
+
+  const updates = await c.req.json<Partial<GlossaryTermInput>>();
+  const term = await updateGlossaryTerm(c.env.LINGUA_DB, id, Number(c.req.param('termId')), updates);
+  if (!term) {
+    return c.json({ error: 'Glossary term not found' }, 404);
+  }
+
+  return c.json({ term, message: 'Term updated' });
+});
+
+// Delete a single term
+app.delete('/glossaries/:id/terms/:termId', requireScope('glossary:write'), async (c) => {
+  if (!c.env.LINGUA_DB) {
+    return c.json({ error: 'D1 database not configured' }, 503);
+  }
+
+  const id = Number(c.req.param('id'));
+  const { error } = await ownedGlossary(c, id);
+  if (error) {
+    return error;
+  }
+
+  const deleted = await deleteGlossaryTerm(c.env.LINGUA_DB, id, Number(c.req.param('termId')));
+  if (!deleted) {
+    return c.json({ error: 'Glossary term not found' }, 404);
+  }
+
+  return c.json({ message: 'Term deleted' });
+});
+
+// ============ LEARNED WORDS ENDPOINTS ============
+
+// Get learning statistics and configuration
+app.get('/learned/stats', requireScope('translate'), async (c) => {
+  if (!c.env.LEARNED_WORDS_KV) {
+    return c.json({ error: 'Learning system not configured' }, 503);
+  }
+
+  const [stats, config] = await Promise.all([
+    getLearnedStats(c.env.LEARNED_WORDS_KV),
+    getLearningConfig(c.env.LEARNED_WORDS_KV),
+  ]);
+  const dictStats = getDictionaryStats();
+
+  return c.json({
+    learning: stats,
+    dictionary: dictStats,
+    config,
+    bulkTiers: BULK_TIERS,
+  });
+});
+
+// Get/Update learning configuration (admin only)
+app.get('/learned/config', requireScope('translate'), async (c) => {
+  if (!c.env.LEARNED_WORDS_KV) {
+    return c.json({ error: 'Learning system not configured' }, 503);
+  }
+
+  const config = await getLearningConfig(c.env.LEARNED_WORDS_KV);
+  return c.json({ config, bulkTiers: BULK_TIERS });
+});
+
+app.put('/learned/config', requireScope('admin:pr'), async (c) => {
+  if (!c.env.LEARNED_WORDS_KV) {
+    return c.json({ error: 'Learning system not configured' }, 503);
+  }
+
+  const updates = await c.req.json<Partial<LearningConfig>>();
+
+  // Validate config values
+  if (updates.prThreshold !== undefined && (updates.prThreshold < 1 || updates.prThreshold > 10000)) {
+    return c.json({ error: 'prThreshold must be between 1 and 10000' }, 400);
+  }
+  if (updates.maxBulkSize !== undefined && (updates.maxBulkSize < 10 || updates.maxBulkSize > 50000)) {
+    return c.json({ error: 'maxBulkSize must be between 10 and 50000' }, 400);
+  }
+
+  const config = await setLearningConfig(c.env.LEARNED_WORDS_KV, updates);
+  return c.json({ config, message: 'Configuration updated' });
+});
+
+// Get pending learned words
+app.get('/learned/pending', requireScope('translate'), async (c) => {
   if (!c.env.LEARNED_WORDS_KV) {
     return c.json({ error: 'Learning system not configured' }, 503);
   }
 
-  const updates = await c.req.json<Partial<LearningConfig>>();
+  const pending = await getPendingWords(c.env.LEARNED_WORDS_KV);
+  return c.json({ pending, count: pending.length });
+});
+
+// Bulk upload words - supports large batches
+app.post('/learned/bulk', requireScope('learn:write'), async (c) => {
+  if (!c.env.LEARNED_WORDS_KV) {
+    return c.json({ error: 'Learning system not configured' }, 503);
+  }
+
+  const body = await c.req.json<{
+    words: Array<{ word: string; translations: Record<string, string>; pos?: string; confidence?: number }>;
+    tier?: BulkTier;
+    sourceLanguage?: string;
+    triggerPRThreshold?: number;
+    skipDuplicates?: boolean;
+    autoTriggerPR?: boolean;
+  }>();
+
+  if (!body.words || !Array.isArray(body.words)) {
+    return c.json({ error: 'words array required' }, 400);
+  }
+
+  // Check tier permission (xlarge and unlimited require the admin:pr scope)
+  const tier = body.tier || 'medium';
+  if ((tier === 'xlarge' || tier === 'unlimited') && !hasScope(c.get('principal'), 'admin:pr')) {
+    return c.json({ error: `Tier '${tier}' requires the admin:pr scope` }, 403);
+  }
+
+  const result = await bulkUploadWords(c.env.LEARNED_WORDS_KV, body.words, {
+    tier,
+    source: 'bulk',
+    sourceLanguage: body.sourceLanguage,
+    triggerPRThreshold: body.triggerPRThreshold,
+    skipDuplicates: body.skipDuplicates,
+  });
+
+  // Auto-trigger PR if enabled and threshold reached
+  if (body.autoTriggerPR !== false && result.shouldTriggerPR && c.env.GITHUB_TOKEN) {
+    const prResult = await triggerDictionaryPR(c.env, body.triggerPRThreshold);
+    return c.json({
+      upload: result,
+      pr: prResult,
+    });
+  }
+
+  return c.json(result);
+});
+
+// Manually trigger dictionary PR with configurable options
+app.post('/learned/trigger-pr', requireScope('admin:pr'), async (c) => {
+  if (!c.env.LEARNED_WORDS_KV || !c.env.GITHUB_TOKEN) {
+    return c.json({ error: 'Learning system or GitHub not configured' }, 503);
+  }
+
+  const body = await c.req.json<{
+    maxWordsPerPR?: number;
+    minConfidence?: number;
+    forceAll?: boolean;
+  }>().catch(() => ({}));
+
+  const result = await triggerDictionaryPR(c.env, body.maxWordsPerPR, body.minConfidence, body.forceAll);
+  return c.json(result);
+});
+
+/**
+ * Align a source text with its translation (dictionary anchors + LLM fallback)
+ */
+async function alignWords(
+  c: any,
+  original: string,
+  translated: string,
+  from: string,
+  to: string
+): Promise<AlignmentLink[]> {
+  return alignTranslation(original, translated, from, to, {
+    lookup: (phrase) => translateWord(phrase, to, from)?.translated ?? null,
+    askJSON: c.env.AI ? (systemPrompt, userPrompt) => callAIForJSON(c, systemPrompt, userPrompt) : undefined,
+  });
+}
+
+/**
+ * Convert alignment links into the `words` array used for hover tooltips
+ */
+function alignmentToWords(alignment: AlignmentLink[], from: string): NonNullable<TranslationResponse['words']> {
+  return alignment.map(link => {
+    const analysis = from === 'en' || from === 'auto' ? analyseEnglishWord(link.source.text) : null;
+    return {
+      original: link.source.text,
+      translated: link.target.text,
+      hasEtymology: !!getDictEtymology(link.source.text),
+      confidence: link.confidence,
+      lemma: analysis?.lemma,
+      inflection: analysis?.inflection ?? undefined,
+    };
+  });
+}
+
+/**
+ * Store AI translations of words the dictionary didn't know (single words only).
+ * Only trusted alignment links are used - positional guesses are never learned.
+ */
+async function learnUnknownWords(
+  c: any,
+  alignment: AlignmentLink[],
+  from: string,
+  to: string,
+  normalizedText: string
+): Promise<void> {
+  if (!c.env.LEARNED_WORDS_KV) {
+    return;
+  }
+
+  for (const link of alignment) {
+    if (link.method === 'position' || link.confidence < TRUSTED_ALIGNMENT_CONFIDENCE) {
+      continue;
+    }
+
+    const unknownWord = link.source.text.toLowerCase();
+    const translatedWord = link.target.text;
+
+    // Only store single unknown words (not phrases), and only if actually translated
+    if (translateWord(unknownWord, to, from)) continue;
+    if (unknownWord.length < 2 || unknownWord.length > 30 || !/^[a-z]+$/i.test(unknownWord)) continue;
+    if (translatedWord.toLowerCase() === unknownWord) continue;
+
+    // Store the learned word
+    const { shouldTriggerPR } = await storeLearnedWord(
+      c.env.LEARNED_WORDS_KV,
+      unknownWord,
+      { [to]: translatedWord },
+      { sourceLanguage: from, confidence: link.confidence, context: normalizedText.substring(0, 100) }
+    );
+
+    // Check if we should trigger GitHub PR
+    if (shouldTriggerPR && c.env.GITHUB_TOKEN && c.env.GITHUB_OWNER && c.env.GITHUB_REPO) {
+      // Fire and forget - don't block the response
+      triggerDictionaryPR(c.env).catch(err => console.error('[LEARN] PR trigger failed:', err));
+    }
+  }
+}
+
+// Confidence given to word pairs taken from human corrections
+const FEEDBACK_CONFIDENCE = 0.95;
+
+/**
+ * Learn the word pairs a reviewer corrected: trusted links whose target
+ * contains words the machine translation didn't have.
+ */
+async function learnCorrectedWords(
+  c: any,
+  alignment: AlignmentLink[],
+  machine: string,
+  from: string,
+  to: string,
+  normalizedText: string
+): Promise<CorrectedWordPair[]> {
+  if (!c.env.LEARNED_WORDS_KV) {
+    return [];
+  }
+
+  const machineWords = new Set(tokenize(machine, to).map(token => token.text.toLowerCase()));
+  const learned: CorrectedWordPair[] = [];
+  let shouldTriggerPR = false;
+
+  for (const link of alignment) {
+    if (link.method === 'position' || link.confidence < TRUSTED_ALIGNMENT_CONFIDENCE) {
+      continue;
+    }
+
+    const word = link.source.text.toLowerCase();
+    const translation = link.target.text;
+
+    // Single words only, and only where the reviewer actually changed something
+    if (word.length < 2 || word.length > 30 || !/^\p{L}+$/u.test(word)) continue;
+    if (translation.toLowerCase() === word) continue;
+    if (tokenize(translation, to).every(token => machineWords.has(token.text.toLowerCase()))) continue;
+
+    const result = await storeLearnedWord(
+      c.env.LEARNED_WORDS_KV,
+      word,
+      { [to]: translation },
+      { sourceLanguage: from, confidence: FEEDBACK_CONFIDENCE, context: normalizedText.substring(0, 100), source: 'user' }
+    );
+    shouldTriggerPR ||= result.shouldTriggerPR;
+    learned.push({ word, translation });
+  }
+
+  if (shouldTriggerPR && c.env.GITHUB_TOKEN && c.env.GITHUB_OWNER && c.env.GITHUB_REPO) {
+    triggerDictionaryPR(c.env).catch(err => console.error('[FEEDBACK] PR trigger failed:', err));
+  }
+
+  return learned;
+}
+
+/**
+ * Replace cached translations of `original` with the human correction:
+ * the /translate entry (under the request's and the detected source
+ * language), the /translate/batch entry and, when the sentences line up,
+ * the per-segment entries.
+ */
+async function overwriteCachedTranslations(
+  c: any,
+  original: string,
+  corrected: string,
+  from: string,
+  sourceLanguage: string,
+  to: string,
+  glossary: Glossary | undefined,
+  alignment: AlignmentLink[]
+): Promise<void> {
+  const protectedText = protectText(original, {});
+
+  // The entry a default /translate request for this text would read
+  const inputs: TranslationCacheInputs = {
+    text: original,
+    glossary: glossaryCacheInput(glossary),
+    protect: protectionCacheInput(protectedText, undefined),
+    memory: memoryOptions(c, { text: original, to }, from, original)?.reuseScore ?? false,
+  };
+
+  // An 'auto' correction also covers requests naming the detected language,
+  // and 'auto' requests hit an explicit one when detection agrees with it
+  const languages = [from];
+  if (from === 'auto') {
+    languages.push(sourceLanguage);
+  } else if (detectLanguage(original).code === from) {
+    languages.push('auto');
+  }
+
+  for (const language of languages) {
+    const result: TranslationResponse = {
+      original,
+      translated: corrected,
+      from_language: language,
+      to_language: to,
+      cached: false,
+      source: 'human',
+      words: alignmentToWords(alignment, language),
+      alignment,
+      glossary: summariseGlossary(glossary, original, corrected, to),
+    };
+    await putCache(c, await translationCacheKey(language, to, inputs), JSON.stringify(result), original);
+  }
+
+  // /translate/batch keys 'auto' as English
+  const batchLanguage = from === 'auto' ? 'en' : from;
+  const batchResult: BatchResult = {
+    original,
+    translated: corrected,
+    from_language: batchLanguage,
+    to_language: to,
+    source: 'human',
+    cached: false,
+  };
+  const batchKey = await translationCacheKey(batchLanguage, to, batchCacheInputs({ text: original }, glossary, null));
+  await putCache(c, batchKey, JSON.stringify(batchResult), original);
+
+  // Segment cache (masked segments are left to expire)
+  if (protectedText.placeholders.length > 0) {
+    return;
+  }
+  const sourceSegments = segmentText(original, from);
+  const targetSegments = segmentText(corrected, to);
+  if (sourceSegments.length !== targetSegments.length) {
+    return;
+  }
+  for (const language of languages) {
+    const options: SegmentOptions = { glossary, memory: memoryOptions(c, { text: original, to }, language, original) };
+    await Promise.all(sourceSegments.map(async (segment, i) =>
+      putCache(c, await segmentCacheKey(c, language, to, segment, options), targetSegments[i].text, segment.text)
+    ));
+  }
+}
+
+// ============ STREAMING (SERVER-SENT EVENTS) ============
+
+/**
+ * Check whether the client asked for a streamed response
+ */
+function wantsEventStream(c: any): boolean {
+  const streamParam = c.req.query('stream');
+  if (streamParam === '1' || streamParam === 'true') {
+    return true;
+  }
+  return (c.req.header('Accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Stream an already-complete result (cache or dictionary hit) as a single event
+ */
+function streamSingleResult(
+  c: any,
+  result: TranslationResponse,
+  headers: Record<string, string>
+): Response {
+  for (const [name, value] of Object.entries(headers)) {
+    c.header(name, value);
+  }
+
+  return streamSSE(c, async (stream) => {
+    await stream.writeSSE({ event: 'result', data: JSON.stringify(result) });
+  });
+}
+
+/**
+ * Translate sentence by sentence, emitting a `segment` event for each and a
+ * final `result` event carrying the full TranslationResponse.
+ */
+function streamTranslation(
+  c: any,
+  opts: {
+    text: string;
+    protectedText: ProtectedText;
+    from: string;
+    to: string;
+    cacheKey: string;
+    segmentOptions: SegmentOptions;
+    qa?: boolean;
+    alternatives?: number;
+  }
+): Response {
+  c.header('X-Cache', 'MISS');
+
+  // Quota usage is recorded when the handler returns, before the stream runs
+  meterUsage(c, 'ai', opts.text.length);
+  // ...but the usage event waits for the models the stream calls
+  const settleUsage = deferUsage(c);
+
+  return streamSSE(
+    c,
+    async (stream) => {
+      try {
+        const { text: maskedText, placeholders } = opts.protectedText;
+        const sentences = segmentText(maskedText, opts.from);
+        const segmentOptions = { ...opts.segmentOptions, placeholderOffset: placeholders.length, placeholders };
+        const segments: SegmentTranslation[] = [];
+
+        for (const sentence of sentences) {
+          const segment = await translateSegment(c, sentence, opts.from, opts.to, segmentOptions);
+          segments.push(segment);
+
+          await stream.writeSSE({
+            event: 'segment',
+            data: JSON.stringify({
+              ...restoreSegment(segment, opts.text, placeholders),
+              total: sentences.length,
+            }),
+          });
+        }
+
+        const restored = restoreProtectedText(
+          joinSegments(segments.map(withSeparator(maskedText)), opts.to),
+          placeholders
+        );
+        const translatedText = restored.text;
+
+        const alignment = await alignWords(c, opts.text, translatedText, opts.from, opts.to);
+        const quality = opts.qa ? await assessQuality(c, opts.text, translatedText, opts.from, opts.to) : undefined;
+        if (quality?.passed !== false) {
+          await learnUnknownWords(c, alignment, opts.from, opts.to, opts.text);
+        }
+
+        const result: TranslationResponse = {
+          original: opts.text,
+          translated: translatedText,
+          from_language: opts.from,
+          to_language: opts.to,
+          cached: false,
+          source: 'api',
+          model: summariseModel(segments),
+          words: alignmentToWords(alignment, opts.from),
+          segments: segments.map(segment => restoreSegment(segment, opts.text, placeholders)),
+          alignment,
+          glossary: summariseGlossary(opts.segmentOptions.glossary, opts.text, translatedText, opts.to),
+          validation_errors: restored.errors.length > 0 ? restored.errors : undefined,
+          tm_match: summariseMemoryMatches(segments),
+          quality,
+          alternatives: opts.alternatives && opts.alternatives > 1
+            ? await translationAlternatives(
+              c, opts.text, opts.from, opts.to,
+              { translated: translatedText, model: summariseModel(segments) },
+              opts.alternatives, opts.segmentOptions.context
+            )
+            : undefined,
+        };
+
+        // Populate the cache so the next (streamed or not) request is a hit
+        if (restored.errors.length === 0 && opts.segmentOptions.cachePolicy?.write !== false && quality?.passed !== false) {
+          await writeDeferredCache(segmentOptions);
+          await putCache(c, opts.cacheKey, JSON.stringify(result), opts.text);
+        }
+
+        await stream.writeSSE({ event: 'result', data: JSON.stringify(result) });
+      } finally {
+        settleUsage();
+      }
+    },
+    async (err, stream) => {
+      console.error('[TRANSLATE/STREAM] Error:', err);
+      // Tell the client the stream failed rather than just ending it
+      await stream.writeSSE({
+        event: 'error',
+        data: JSON.stringify({ error: 'Translation failed', message: err.message }),
+      });
+    }
+  );
+}
+
+/**
+ * Trigger GitHub PR with pending learned words
+ */
+async function triggerDictionaryPR(
+  env: Env,
+  maxWords?: number,
+  minConfidence?: number,
+  forceAll?: boolean
+): Promise<{ success: boolean; prUrl?: string; prNumber?: number; wordsIncluded?: number; error?: string }> {
+  if (!env.LEARNED_WORDS_KV || !env.GITHUB_TOKEN || !env.GITHUB_OWNER || !env.GITHUB_REPO) {
+    return { success: false, error: 'Missing configuration' };
+  }
+
+  const config = await getLearningConfig(env.LEARNED_WORDS_KV);
+  await markProcessing(env.LEARNED_WORDS_KV);
+
+  const pending = await getPendingWords(env.LEARNED_WORDS_KV);
+  if (pending.length === 0) {
+    return { success: false, error: 'No pending words' };
+  }
+
+  // Filter to only high-confidence words (unless forceAll)
+  const confidenceThreshold = minConfidence ?? config.minConfidence;
+  const readyWords = forceAll
+    ? pending
+    : pending.filter(w => w.confidence >= confidenceThreshold || w.seenCount >= 3);
+
+  if (readyWords.length === 0) {
+    return { success: false, error: `No words meet confidence threshold (${confidenceThreshold})` };
+  }
+
+  // Limit words per PR
+  const wordsPerPR = maxWords ?? config.maxWordsPerPR;
+  const wordsToInclude = readyWords.slice(0, wordsPerPR);
+
+  const result = await createDictionaryPR(
+    {
+      token: env.GITHUB_TOKEN,
+      owner: env.GITHUB_OWNER,
+      repo: env.GITHUB_REPO,
+    },
+    wordsToInclude
+  );
+
+  if (result.success && result.prNumber) {
+    await clearPendingQueue(env.LEARNED_WORDS_KV, result.prNumber);
+  }
+
+  return {
+    ...result,
+    wordsIncluded: wordsToInclude.length,
+  };
+}
+
+// ============ BATCH HELPERS ============
+
+// Texts translated concurrently per chunk (the /translate/batch limit)
+const BATCH_CHUNK_SIZE = 50;
+
+// Segment pairs accepted by one /tm/import request
+const MAX_TMX_IMPORT_ENTRIES = 5000;
+
+// /translate/file and /translate/subtitles limits
+const MAX_FILE_SIZE = 1_000_000;
+const MAX_FILE_UNITS = 5000;
+const MAX_FILE_TARGETS = 10;
+
+interface BatchItem {
+  text: string;
+  context?: string;
+}
+
+interface BatchResult {
+  original: string;
+  translated: string;
+  from_language: string;
+  to_language: string;
+  source: 'dictionary' | 'api' | 'stub' | 'human';
+  model?: string;
+  cached: boolean;
+  validation_errors?: PlaceholderValidationError[];
+}
+
+/**
+ * Translate many texts through the dictionary -> cache -> CF AI pipeline,
+ * BATCH_CHUNK_SIZE at a time. Results keep the order of `items`.
+ */
+async function translateBatch(
+  c: any,
+  items: BatchItem[],
+  from: string,
+  to: string,
+  glossary?: Glossary,
+  protection?: ProtectionOptions
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = [];
+
+  for (let i = 0; i < items.length; i += BATCH_CHUNK_SIZE) {
+    const chunk = items.slice(i, i + BATCH_CHUNK_SIZE);
+    results.push(...await Promise.all(
+      chunk.map(item => translateBatchItem(c, item, from, to, glossary, protection))
+    ));
+  }
+
+  return results;
+}
+
+/**
+ * Translate one batch text. With `protection` set, texts containing
+ * placeholders are masked and validated like /translate does.
+ */
+async function translateBatchItem(
+  c: any,
+  item: BatchItem,
+  sourceLanguage: string,
+  to: string,
+  glossary?: Glossary,
+  protection?: ProtectionOptions
+): Promise<BatchResult> {
+  const { text, context } = item;
+  // Trimmed once: masking, restoration and the dictionary pass all work on
+  // this string (the dictionary keeps its case and punctuation, like /translate)
+  const trimmedText = text.trim();
+  const protectedText = protection ? protectText(trimmedText, protection) : null;
+  const hasPlaceholders = !!protectedText && protectedText.placeholders.length > 0;
+
+  const cacheInputs = batchCacheInputs(item, glossary, protectedText, protection);
+  const cacheKey = await translationCacheKey(sourceLanguage, to, cacheInputs);
+  const cached = await getCachedJSON(c, cacheKey, {
+    key: () => legacyTranslationCacheKey(sourceLanguage, to, cacheInputs),
+    matches: (entry) => entry.original === text,
+  });
+
+  if (cached) {
+    traceCacheHit(c);
+    return { ...cached, cached: true };
+  }
+
+  // Try dictionary lookup first for single words
+  const words = trimmedText.split(/\s+/);
+  let translated: string;
+  let model: string | undefined;
+  let translationSource: 'dictionary' | 'api' | 'stub' = 'stub';
+  let validationErrors: PlaceholderValidationError[] = [];
+
+  if (hasPlaceholders) {
+    // Placeholders must survive - translate the masked text and validate
+    const result = await translateProtected(c, trimmedText, protectedText!, sourceLanguage, to, { context, glossary });
+    translated = result.translated;
+    model = summariseModel(result.segments) ?? undefined;
+    validationErrors = result.validationErrors;
+    translationSource = 'api';
+  } else if (glossary && findGlossaryMatches(trimmedText, glossary.terms || [], to).length > 0) {
+    // Glossary terms present - enforce them instead of using the dictionary
+    ({ translated, model } = await translateWithGlossaryTerms(c, trimmedText, sourceLanguage, to, glossary, context));
+    translationSource = 'api';
+  } else if (words.length === 1) {
+    // Single word - try dictionary
+    const dictResult = translateDictionaryText(prepareDictionaryText(trimmedText, sourceLanguage), to);
+    if (dictResult.text !== null && dictResult.translated.length > 0 && dictResult.text !== trimmedText) {
+      translated = dictResult.text;
+      translationSource = 'dictionary';
+    } else {
+      // Fall back to the provider chain
+      ({ translated, model } = await translateText(c, trimmedText, sourceLanguage, to, context));
+      translationSource = 'api';
+    }
+  } else {
+    // Multiple words - try word-by-word dictionary, then CF AI
+    const dictResults = translateDictionaryText(prepareDictionaryText(trimmedText, sourceLanguage), to);
+
+    if (dictResults.text !== null && dictResults.translated.length > 0) {
+      translated = dictResults.text;
+      translationSource = 'dictionary';
+    } else {
+      // Use the provider chain for the full translation
+      ({ translated, model } = await translateText(c, trimmedText, sourceLanguage, to, context));
+      translationSource = 'api';
+    }
+  }
+
+  if (translationSource === 'dictionary') {
+    meterUsage(c, 'dictionary', text.length);
+  }
+
+  const result: BatchResult = {
+    original: text,
+    translated,
+    from_language: sourceLanguage,
+    to_language: to,
+    source: translationSource,
+    model,
+    cached: false,
+    validation_errors: validationErrors.length > 0 ? validationErrors : undefined,
+  };
+
+  if (validationErrors.length === 0) {
+    await putCache(c, cacheKey, JSON.stringify(result), text);
+  }
+
+  return result;
+}
+
+/**
+ * Cache inputs for a batch text: the text as sent (case matters to the
+ * output), plus the protection settings when it has placeholders
+ */
+function batchCacheInputs(
+  item: BatchItem,
+  glossary: Glossary | undefined,
+  protectedText: ProtectedText | null,
+  protection?: ProtectionOptions
+): TranslationCacheInputs {
+  const hasPlaceholders = !!protectedText && protectedText.placeholders.length > 0;
+  return {
+    text: item.text.trim(),
+    context: item.context,
+    glossary: glossaryCacheInput(glossary),
+    protect: hasPlaceholders ? protectionCacheInput(protectedText!, protection) : undefined,
+    batch: true,
+  };
+}
+
+function batchItemKey(item: BatchItem): string {
+  return `${item.context ?? ''}\u0000${item.text}`;
+}
+
+/**
+ * Context hint for a file unit: its declared context plus translator notes
+ */
+function unitContext(unit: LocalisationUnit): string | undefined {
+  return [unit.context, unit.note].filter(Boolean).join(' - ') || undefined;
+}
+
+// ============ HELPER FUNCTIONS ============
+
+/**
+ * Translate a single sentence segment, reusing the per-segment cache
+ */
+async function translateSegment(
+  c: any,
+  segment: Segment,
+  from: string,
+  to: string,
+  options: SegmentOptions = {}
+): Promise<SegmentTranslation> {
+  const cacheKey = await segmentCacheKey(c, from, to, segment, options);
+  const base = { index: segment.index, original: segment.text, start: segment.start, end: segment.end };
+
+  const policy = options.cachePolicy ?? DEFAULT_CACHE_POLICY;
+  if (policy.read) {
+    const { value, metadata } = await c.env.CACHE_KV.getWithMetadata(cacheKey);
+    if (value && cacheFreshness(policy, cacheAge(metadata)) !== 'expired') {
+      traceCacheHit(c);
+      return { ...base, translated: value, cached: true, model: (metadata as CacheMetadata | null)?.model };
+    }
+  }
+
+  // Translation memory: reuse a close enough match, or show it to the model
+  const memory = segmentMemory(c, segment, options);
+  const match = memory ? await lookupMemory(c, segment.text, memory, to) : null;
+  const reused = !!match && match.score >= memory!.reuseScore;
+
+  let translated: string;
+  let model: string | undefined;
+  if (reused) {
+    translated = match!.entry.target;
+    await recordMemoryUsage(c.env.LINGUA_DB, match!.entry.id).catch(() => undefined);
+  } else if (options.glossary) {
+    ({ translated, model } = await translateWithGlossaryTerms(c, segment.text, from, to, options.glossary, options.context, options.placeholderOffset));
+  } else if (match) {
+    ({ translated, model } = await translateText(c, segment.text, from, to, memoryReference(match, options.context), true));
+  } else {
+    ({ translated, model } = await translateText(c, segment.text, from, to, options.context));
+  }
+
+  if (policy.write) {
+    // Indexed under the unmasked text, which is what a purge by text names
+    const sourceText = options.placeholders?.length ? sourceSegmentText(segment.text, options.placeholders) : segment.text;
+    const write = () => putCache(c, cacheKey, translated, sourceText, { model });
+    if (options.deferredCacheWrites) {
+      options.deferredCacheWrites.push(write);
+    } else {
+      await write();
+    }
+  }
+
+  if (memory && !reused) {
+    await storeMemoryEntry(c.env.LINGUA_DB, {
+      sourceLanguage: memory.sourceLanguage,
+      targetLanguage: to,
+      source: segment.text,
+      target: translated,
+      provenance: 'ai',
+    }).catch(err => console.warn('[TM] Store failed:', err));
+  }
+
+  return {
+    ...base,
+    translated,
+    cached: false,
+    model,
+    tm_match: match ? { id: match.entry.id, score: match.score, source: match.entry.provenance, reused } : undefined,
+  };
+}
+
+/**
+ * Per-segment cache key (the value is the plain translated string). Covers
+ * every option translateSegment passes to the model: context, glossary and
+ * the translation memory the segment may reuse or be shown.
+ */
+function segmentCacheKey(c: any, from: string, to: string, segment: Segment, options: SegmentOptions): Promise<string> {
+  return buildCacheKey('seg', [from, to], {
+    text: segment.text,
+    context: options.context,
+    glossary: glossaryCacheInput(options.glossary),
+    memory: segmentMemory(c, segment, options)?.reuseScore ?? false,
+  });
+}
+
+/**
+ * Translate all segments of a text concurrently
+ */
+async function translateSegments(
+  c: any,
+  segments: Segment[],
+  from: string,
+  to: string,
+  options: SegmentOptions = {}
+): Promise<SegmentTranslation[]> {
+  return Promise.all(segments.map(segment => translateSegment(c, segment, from, to, options)));
+}
+
+/**
+ * Recover the whitespace that followed each segment in the source text
+ */
+function withSeparator(sourceText: string) {
+  return (segment: SegmentTranslation, i: number, all: SegmentTranslation[]) => ({
+    translated: segment.translated,
+    separator: all[i + 1] ? sourceText.slice(segment.end, all[i + 1].start) : '',
+  });
+}
+
+// ============ TRANSLATION MEMORY HELPERS ============
+
+/**
+ * Translation memory settings for a /translate request (undefined when off)
+ */
+function memoryOptions(
+  c: any,
+  body: TranslationRequest,
+  from: string,
+  text: string
+): MemoryOptions | undefined {
+  if (!c.env.LINGUA_DB || body.tm === false) {
+    return undefined;
+  }
+
+  const reuseScore = Math.min(Math.max(Number(body.tmThreshold) || 100, DEFAULT_MIN_TM_SCORE), 100);
+  return {
+    sourceLanguage: from === 'auto' ? detectLanguage(text).code : from,
+    reuseScore,
+    referenceScore: Math.min(DEFAULT_MIN_TM_SCORE, reuseScore),
+  };
+}
+
+/**
+ * Memory settings for one segment. Glossary-enforced and placeholder-masked
+ * segments stay out of the shared memory.
+ */
+function segmentMemory(c: any, segment: Segment, options: SegmentOptions): MemoryOptions | undefined {
+  if (!options.memory || options.glossary || /__PH\d+__/.test(segment.text)) {
+    return undefined;
+  }
+  return options.memory;
+}
+
+async function lookupMemory(c: any, text: string, memory: MemoryOptions, to: string): Promise<TMMatch | null> {
+  try {
+    return await findMemoryMatch(c.env.LINGUA_DB, text, memory.sourceLanguage, to, memory.referenceScore);
+  } catch (err) {
+    console.warn('[TM] Lookup failed:', err);
+    return null;
+  }
+}
+
+/**
+ * LLM context pointing at a fuzzy memory match
+ */
+function memoryReference(match: TMMatch, context?: string): string {
+  const reference = `A similar sentence "${match.entry.source}" was previously translated as "${match.entry.target}" - reuse its terminology and phrasing where it applies`;
+  return context ? `${context}. ${reference}` : reference;
+}
+
+/**
+ * Overall memory match for a text: segment scores weighted by length
+ */
+function summariseMemoryMatches(segments: SegmentTranslation[]): TMMatchSummary | undefined {
+  const matched = segments.filter(s => s.tm_match);
+  if (matched.length === 0) {
+    return undefined;
+  }
+  if (segments.length === 1) {
+    return segments[0].tm_match;
+  }
+
+  const length = (s: SegmentTranslation) => s.original.length;
+  const total = segments.reduce((sum, s) => sum + length(s), 0);
+  const score = segments.reduce((sum, s) => sum + (s.tm_match?.score ?? 0) * length(s), 0) / (total || 1);
+  const sources = new Set(matched.map(s => s.tm_match!.source));
+
+  return {
+    score: Math.round(score),
+    source: sources.size === 1 ? [...sources][0] : 'mixed',
+    reused: segments.every(s => s.tm_match?.reused),
+  };
+}
+
+/**
+ * Make the segment cache writes QA mode held back
+ */
+async function writeDeferredCache(options: SegmentOptions): Promise<void> {
+  const writes = options.deferredCacheWrites?.splice(0) ?? [];
+  await Promise.all(writes.map(write => write()));
+}
+
+/**
+ * The model that translated the most source characters, or null when no
+ * segment came from a model (e.g. all reused from the translation memory)
+ */
+function summariseModel(segments: SegmentTranslation[]): string | null {
+  const characters = new Map<string, number>();
+  for (const segment of segments) {
+    if (segment.model) {
+      characters.set(segment.model, (characters.get(segment.model) ?? 0) + segment.original.length);
+    }
+  }
+  return [...characters].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+// ============ ALTERNATIVES ============
+
+/**
+ * n-best candidates for a short text (see lib/alternatives.ts): dictionary
+ * senses when every word is known, the main translation, and model samples
+ */
+async function translationAlternatives(
+  c: any,
+  text: string,
+  from: string,
+  to: string,
+  main: { translated: string; model: string | null },
+  count: number,
+  context?: string
+): Promise<TranslationAlternative[]> {
+  const words = text.toLowerCase().split(/\s+/).filter(w => w.length > 0);
+  const dictionary = dictionaryAlternatives(tokenizePhrases(words, from).map(token => token.key), to, count, from);
+
+  const mainSample: ModelSample[] = main.model
+    ? [{ translated: main.translated, provider: providerForModel(main.model) ?? main.model, model: main.model }]
+    : [];
+  const samples = await sampleTranslations(c, text, from, to, count, context);
+
+  return mergeAlternatives([dictionary, sampleAlternatives([...mainSample, ...samples])], count);
+}
+
+// ============ QUALITY ESTIMATION ============
+
+/**
+ * Score a translation for QA mode (see lib/quality.ts), back-translating it
+ * unless `backTranslate` is false. A failed back-translation leaves the
+ * static checks.
+ */
+async function assessQuality(
+  c: any,
+  original: string,
+  translated: string,
+  from: string,
+  to: string,
+  backTranslate: boolean = true
+): Promise<QualityReport> {
+  const source = from === 'auto' ? detectLanguage(original).code : from;
+
+  let backTranslation: string | null = null;
+  if (backTranslate && translated.trim()) {
+    try {
+      backTranslation = (await translateText(c, translated, to, source)).translated;
+    } catch (err) {
+      console.warn('[QA] Back-translation failed:', err);
+    }
+  }
+
+  return estimateQuality({ original, translated, from: source, to, backTranslation });
+}
+
+// ============ GLOSSARY HELPERS ============
+
+/**
+ * Load the glossary referenced by a request, or build the error response
+ */
+async function resolveGlossary(
+  c: any,
+  glossaryId?: number | string
+): Promise<{ glossary?: Glossary; error?: Response }> {
+  if (glossaryId === undefined || glossaryId === null || glossaryId === '') {
+    return {};
+  }
+
+  if (!c.env.LINGUA_DB) {
+    return { error: c.json({ error: 'D1 database not configured' }, 503) };
+  }
+
+  const id = Number(glossaryId);
+  const glossary = Number.isInteger(id) ? await getGlossary(c.env.LINGUA_DB, id) : null;
+  if (!glossary) {
+    return { error: c.json({ error: 'Glossary not found', glossaryId }, 404) };
+  }
+
+  return { glossary };
+}
+
+/**
+ * Load a glossary the caller may change: only its creator and the root key
+ * can (glossaries from before ownership was recorded are root-only)
+ */
+async function ownedGlossary(c: any, id: number): Promise<{ glossary?: Glossary; error?: Response }> {
+  const glossary = Number.isInteger(id) ? await getGlossary(c.env.LINGUA_DB, id) : null;
+  if (!glossary) {
+    return { error: c.json({ error: 'Glossary not found' }, 404) };
+  }
+
+  const principal: Principal = c.get('principal');
+  if (principal.id !== 'root' && glossary.createdBy !== principal.id) {
+    return { error: c.json({ error: 'Only the key that created this glossary can change it' }, 403) };
+  }
+
+  return { glossary };
+}
+
+/**
+ * Cache key input for a glossary - changes whenever the glossary is edited
+ */
+function glossaryCacheInput(glossary?: Glossary): TranslationCacheInputs['glossary'] {
+  return glossary ? { id: glossary.id, version: glossary.version, updatedAt: glossary.updatedAt } : undefined;
+}
+
+/**
+ * Report which glossary terms applied to a text and which are still missing
+ */
+function summariseGlossary(
+  glossary: Glossary | undefined,
+  original: string,
+  translated: string,
+  to: string
+): GlossarySummary | undefined {
+  if (!glossary) {
+    return undefined;
+  }
+
+  const seen = new Set<string>();
+  const applied = findGlossaryMatches(original, glossary.terms || [], to)
+    .map(m => m.requirement)
+    .filter(r => !seen.has(r.source) && seen.add(r.source));
 
-  // Validate config values
-  if (updates.prThreshold !== undefined && (updates.prThreshold < 1 || updates.prThreshold > 10000)) {
-    return c.json({ error: 'prThreshold must be between 1 and 10000' }, 400);
-  }
-  if (updates.maxBulkSize !== undefined && (updates.maxBulkSize < 10 || updates.maxBulkSize > 50000)) {
-    return c.json({ error: 'maxBulkSize must be between 10 and 50000' }, 400);
-  }
+  return {
+    id: glossary.id,
+    name: glossary.name,
+    applied,
+    missing: applied.filter(r => !containsTerm(translated, r)),
+  };
+}
 
-  const config = await setLearningConfig(c.env.LEARNED_WORDS_KV, updates);
-  return c.json({ config, message: 'Configuration updated' });
-});
+/**
+ * Translate text with glossary enforcement (placeholder masking, then LLM post-edit)
+ */
+async function translateWithGlossaryTerms(
+  c: any,
+  text: string,
+  from: string,
+  to: string,
+  glossary: Glossary,
+  context?: string,
+  placeholderOffset?: number
+): Promise<{ translated: string; model?: string }> {
+  let model: string | undefined;
+  const result = await translateWithGlossary(
+    text,
+    glossary.terms || [],
+    to,
+    async (input) => {
+      const machine = await translateText(c, input, from, to, context);
+      model = machine.model;
+      return machine.translated;
+    },
+    (source, translation, required) => postEditGlossaryTerms(c, source, translation, from, to, required),
+    placeholderOffset
+  );
 
-// Get pending learned words
-app.get('/learned/pending', async (c) => {
-  if (!c.env.LEARNED_WORDS_KV) {
-    return c.json({ error: 'Learning system not configured' }, 503);
+  if (result.missing.length > 0) {
+    console.warn('[GLOSSARY] Terms missing after enforcement:', result.missing.map(r => r.source));
   }
 
-  const pending = await getPendingWords(c.env.LEARNED_WORDS_KV);
-  return c.json({ pending, count: pending.length });
-});
+  return { translated: result.translated, model };
+}
 
-// Bulk upload words - supports large batches
-app.post('/learned/bulk', async (c) => {
-  if (!c.env.LEARNED_WORDS_KV) {
-    return c.json({ error: 'Learning system not configured' }, 503);
-  }
+/**
+ * Ask the LLM to revise a translation so it uses the required glossary terms
+ */
+async function postEditGlossaryTerms(
+  c: any,
+  source: string,
+  translation: string,
+  from: string,
+  to: string,
+  required: GlossaryRequirement[]
+): Promise<string | null> {
+  const systemPrompt = `You are a translation post-editor. Revise the ${to} translation of a ${from === 'auto' ? '' : from + ' '}text so that every listed source term is translated exactly as given. Change nothing else.
+{
+  "translation": "revised translation"
+}`;
 
-  const body = await c.req.json<{
-    words: Array<{ word: string; translations: Record<string, string>; pos?: string; confidence?: number }>;
-    tier?: BulkTier;
-    sourceLanguage?: string;
-    triggerPRThreshold?: number;
-    skipDuplicates?: boolean;
-    autoTriggerPR?: boolean;
-  }>();
+  const userPrompt = `Source: ${source}
+Translation: ${translation}
+Required terms:
+${required.map(r => `- "${r.source}" => "${r.target}"`).join('\n')}`;
 
-  if (!body.words || !Array.isArray(body.words)) {
-    return c.json({ error: 'words array required' }, 400);
-  }
+  const edited = await callAIForJSON(c, systemPrompt, userPrompt);
+  return typeof edited?.translation === 'string' && edited.translation.trim()
+    ? edited.translation.trim()
+    : null;
+}
 
-  // Check tier permission (xlarge and unlimited require admin key)
-  const tier = body.tier || 'medium';
-  if ((tier === 'xlarge' || tier === 'unlimited') && !c.req.header('X-Admin-Key')) {
-    return c.json({ error: `Tier '${tier}' requires admin authentication` }, 403);
-  }
+// ============ PROTECTION & DOCUMENT HELPERS ============
 
-  const result = await bulkUploadWords(c.env.LEARNED_WORDS_KV, body.words, {
-    tier,
-    source: 'bulk',
-    sourceLanguage: body.sourceLanguage,
-    triggerPRThreshold: body.triggerPRThreshold,
-    skipDuplicates: body.skipDuplicates,
+/**
+ * Translate protected (masked) text segment by segment, then restore the
+ * protected tokens and validate that each survived exactly once.
+ */
+async function translateProtected(
+  c: any,
+  original: string,
+  protectedText: ProtectedText,
+  from: string,
+  to: string,
+  options: SegmentOptions
+): Promise<{ translated: string; segments: SegmentTranslation[]; validationErrors: PlaceholderValidationError[] }> {
+  const { text: maskedText, placeholders } = protectedText;
+
+  const segments = await translateSegments(c, segmentText(maskedText, from), from, to, {
+    ...options,
+    placeholderOffset: options.placeholderOffset ?? placeholders.length,
+    placeholders,
   });
 
-  // Auto-trigger PR if enabled and threshold reached
-  if (body.autoTriggerPR !== false && result.shouldTriggerPR && c.env.GITHUB_TOKEN) {
-    const prResult = await triggerDictionaryPR(c.env, body.triggerPRThreshold);
-    return c.json({
-      upload: result,
-      pr: prResult,
-    });
-  }
-
-  return c.json(result);
-});
+  const restored = restoreProtectedText(joinSegments(segments.map(withSeparator(maskedText)), to), placeholders);
 
-// Manually trigger dictionary PR with configurable options
-app.post('/learned/trigger-pr', async (c) => {
-  const adminKey = c.req.header('X-Admin-Key');
-  if (!adminKey) {
-    return c.json({ error: 'Admin key required' }, 401);
-  }
+  return {
+    translated: restored.text,
+    segments: segments.map(segment => restoreSegment(segment, original, placeholders)),
+    validationErrors: restored.errors,
+  };
+}
 
-  if (!c.env.LEARNED_WORDS_KV || !c.env.GITHUB_TOKEN) {
-    return c.json({ error: 'Learning system or GitHub not configured' }, 503);
+/**
+ * Map a segment of masked text back onto the original text
+ */
+function restoreSegment(
+  segment: SegmentTranslation,
+  original: string,
+  placeholders: Placeholder[]
+): SegmentTranslation {
+  if (placeholders.length === 0) {
+    return segment;
   }
 
-  const body = await c.req.json<{
-    maxWordsPerPR?: number;
-    minConfidence?: number;
-    forceAll?: boolean;
-  }>().catch(() => ({}));
+  const start = originalOffset(segment.start, placeholders);
+  const end = originalOffset(segment.end, placeholders);
 
-  const result = await triggerDictionaryPR(c.env, body.maxWordsPerPR, body.minConfidence, body.forceAll);
-  return c.json(result);
-});
+  return {
+    ...segment,
+    original: original.slice(start, end),
+    translated: unmaskText(segment.translated, placeholders).text,
+    start,
+    end,
+  };
+}
 
 /**
- * Trigger GitHub PR with pending learned words
+ * Segment text as it appeared in the request, protected spans and all
  */
-async function triggerDictionaryPR(
-  env: Env,
-  maxWords?: number,
-  minConfidence?: number,
-  forceAll?: boolean
-): Promise<{ success: boolean; prUrl?: string; prNumber?: number; wordsIncluded?: number; error?: string }> {
-  if (!env.LEARNED_WORDS_KV || !env.GITHUB_TOKEN || !env.GITHUB_OWNER || !env.GITHUB_REPO) {
-    return { success: false, error: 'Missing configuration' };
-  }
+function sourceSegmentText(maskedText: string, placeholders: Placeholder[]): string {
+  return unmaskText(maskedText, placeholders.map(p => ({ ...p, replacement: p.original }))).text;
+}
 
-  const config = await getLearningConfig(env.LEARNED_WORDS_KV);
-  await markProcessing(env.LEARNED_WORDS_KV);
+// Text runs translated at once when rendering a document
+const DOCUMENT_UNIT_CONCURRENCY = 8;
 
-  const pending = await getPendingWords(env.LEARNED_WORDS_KV);
-  if (pending.length === 0) {
-    return { success: false, error: 'No pending words' };
+/**
+ * Translate every unit of an HTML/Markdown document and rebuild it. Units
+ * carry markup placeholders first, then protected tokens, then glossary terms.
+ */
+async function translateDocument(
+  c: any,
+  document: ParsedDocument,
+  unitProtection: ProtectedText[],
+  from: string,
+  to: string,
+  options: SegmentOptions
+): Promise<{ translated: string; model: string | null; validationErrors: PlaceholderValidationError[] }> {
+  const translations: string[] = [];
+  const segments: SegmentTranslation[] = [];
+  const validationErrors: PlaceholderValidationError[] = [];
+
+  for (let i = 0; i < document.units.length; i += DOCUMENT_UNIT_CONCURRENCY) {
+    const chunk = document.units.slice(i, i + DOCUMENT_UNIT_CONCURRENCY);
+    const results = await Promise.all(chunk.map(unit => {
+      const protection = unitProtection[unit.index];
+      return translateProtected(c, unit.text, protection, from, to, {
+        ...options,
+        placeholderOffset: unit.placeholders.length + protection.placeholders.length,
+      });
+    }));
+
+    for (const result of results) {
+      translations.push(result.translated);
+      segments.push(...result.segments);
+      validationErrors.push(...result.validationErrors);
+    }
   }
 
-  // Filter to only high-confidence words (unless forceAll)
-  const confidenceThreshold = minConfidence ?? config.minConfidence;
-  const readyWords = forceAll
-    ? pending
-    : pending.filter(w => w.confidence >= confidenceThreshold || w.seenCount >= 3);
+  const rendered = renderDocument(document, translations);
+  validationErrors.push(
+    ...rendered.missing.map(p => ({ token: p.original, kind: p.kind, issue: 'missing' as const })),
+    ...rendered.duplicated.map(p => ({ token: p.original, kind: p.kind, issue: 'duplicated' as const }))
+  );
 
-  if (readyWords.length === 0) {
-    return { success: false, error: `No words meet confidence threshold (${confidenceThreshold})` };
+  return { translated: rendered.text, model: summariseModel(segments), validationErrors };
+}
+
+/**
+ * Normalise the translateAttributes option to a list of attribute names
+ */
+function resolveTranslateAttributes(option?: boolean | string[]): string[] {
+  if (option === true) {
+    return TRANSLATABLE_ATTRIBUTES.slice(0, 2);
+  }
+  if (Array.isArray(option)) {
+    return option.map(a => String(a).toLowerCase()).filter(a => TRANSLATABLE_ATTRIBUTES.includes(a));
   }
+  return [];
+}
 
-  // Limit words per PR
-  const wordsPerPR = maxWords ?? config.maxWordsPerPR;
-  const wordsToInclude = readyWords.slice(0, wordsPerPR);
+/**
+ * Cache key input for document format settings (none for plain text)
+ */
+function documentCacheInput(format: DocumentFormat, translateAttributes: string[]): TranslationCacheInputs['document'] {
+  return format === 'text' ? undefined : { format, attributes: [...translateAttributes].sort() };
+}
 
-  const result = await createDictionaryPR(
-    {
-      token: env.GITHUB_TOKEN,
-      owner: env.GITHUB_OWNER,
-      repo: env.GITHUB_REPO,
-    },
-    wordsToInclude
-  );
+/**
+ * Cache key input for protection settings - only relevant when tokens were found
+ */
+function protectionCacheInput(protectedText: ProtectedText, protect?: boolean | ProtectionOptions): TranslationCacheInputs['protect'] {
+  return protectedText.placeholders.length === 0 ? undefined : protect ?? true;
+}
 
-  if (result.success && result.prNumber) {
-    await clearPendingQueue(env.LEARNED_WORDS_KV, result.prNumber);
+// Provider config is read once per request (see lib/providers.ts)
+const requestProviderConfigs = new WeakMap<object, Promise<ProviderConfig>>();
+
+async function requestProviders(c: any): Promise<{ config: ProviderConfig; providers: Map<ProviderId, TranslationProvider> }> {
+  let config = requestProviderConfigs.get(c);
+  if (!config) {
+    config = getProviderConfig(c.env);
+    requestProviderConfigs.set(c, config);
   }
 
-  return {
-    ...result,
-    wordsIncluded: wordsToInclude.length,
-  };
+  const run: ModelRunner | null = c.env.AI ? (model, input, assist) => runModel(c, model, input, assist) : null;
+  return { config: await config, providers: createProviders(run) };
 }
 
-// ============ HELPER FUNCTIONS ============
+/**
+ * Only route 'auto' by script when the script identifies the language;
+ * otherwise leave it to providers that detect the source themselves
+ */
+function routingSource(text: string, from: string): string {
+  const detected = from === 'auto' ? detectLanguage(text) : null;
+  return detected && detected.confidence >= 0.8 ? detected.code : from;
+}
 
-// Language code mapping for m2m100 model
-const M2M100_LANG_CODES: Record<string, string> = {
-  en: 'en', es: 'es', fr: 'fr', de: 'de', it: 'it', pt: 'pt',
-  zh: 'zh', ja: 'ja', ko: 'ko', ar: 'ar', ru: 'ru', hi: 'hi',
-  nl: 'nl', pl: 'pl', tr: 'tr', vi: 'vi', th: 'th', id: 'id',
-  cs: 'cs', ro: 'ro', hu: 'hu', el: 'el', sv: 'sv', da: 'da',
-  fi: 'fi', no: 'nb', uk: 'uk', he: 'he', bg: 'bg', hr: 'hr',
-};
+interface MachineTranslation {
+  translated: string;
+  model: string; // Model that produced the output
+}
 
-async function translateWithCF(
+/**
+ * Machine-translate text with the routed provider chain for the pair and
+ * length. `prompted` keeps only providers that read the context (e.g. TM
+ * reference material), unless none of them is available.
+ */
+async function translateText(
   c: any,
   text: string,
   from: string,
   to: string,
-  context?: string
-): Promise<string> {
-  // Map language codes for m2m100
-  const sourceLang = M2M100_LANG_CODES[from] || 'en';
-  const targetLang = M2M100_LANG_CODES[to];
-
-  if (!targetLang) {
-    // Fallback to LLM for unsupported language pairs
-    return translateWithCFLLM(c, text, from, to, context);
+  context?: string,
+  prompted: boolean = false
+): Promise<MachineTranslation> {
+  const { config, providers } = await requestProviders(c);
+  const source = routingSource(text, from);
+
+  const route = resolveRoute(config, providers, source, to, text.length);
+  if (prompted && route.chain.some(provider => provider.usesContext)) {
+    route.chain = route.chain.filter(provider => provider.usesContext);
   }
 
-  try {
-    // Try m2m100 translation model first (fast, specialized)
-    const result = await c.env.AI.run(CF_TRANSLATION_MODEL, {
-      text,
-      source_lang: sourceLang,
-      target_lang: targetLang,
-    }) as { translated_text: string };
-
-    if (result?.translated_text) {
-      return result.translated_text;
-    }
-  } catch (err) {
-    console.warn('[CF-TRANSLATE] m2m100 failed, falling back to LLM:', err);
+  if (route.chain.some(provider => provider.remote)) {
+    meterUsage(c, 'ai', text.length);
   }
-
-  // Fallback to LLM translation
-  return translateWithCFLLM(c, text, from, to, context);
+  const started = Date.now();
+  const { translated, model, provider } = await translateWithChain(route, { text, from: source, to, context });
+  if (provider === 'local') {
+    // Not a model call, but the output the request is served
+    traceModel(c, { model, ok: true, ms: Date.now() - started, local: true });
+  }
+  return { translated, model };
 }
 
-async function translateWithCFLLM(
+// Temperatures for n-best samples (the main translation runs at 0.3)
+const SAMPLE_TEMPERATURES = [0.7, 0.9, 1.1, 0.8, 1.0];
+
+/**
+ * Translate text several times at higher temperatures with the providers
+ * whose output varies (in route order). Failed samples are dropped.
+ */
+async function sampleTranslations(
   c: any,
   text: string,
   from: string,
   to: string,
+  count: number,
   context?: string
-): Promise<string> {
-  const systemPrompt = context
-    ? `You are a professional translator. Translate the following text from ${from === 'auto' ? 'the detected language' : from} to ${to}. Context: ${context}. Return ONLY the translated text, nothing else.`
-    : `You are a professional translator. Translate the following text from ${from === 'auto' ? 'the detected language' : from} to ${to}. Return ONLY the translated text, nothing else.`;
+): Promise<ModelSample[]> {
+  const { config, providers } = await requestProviders(c);
+  const source = routingSource(text, from);
+
+  const route = resolveRoute(config, providers, source, to, text.length);
+  route.chain = route.chain.filter(provider => provider.sampled);
+  if (route.chain.length === 0) {
+    return [];
+  }
 
+  const temperatures = SAMPLE_TEMPERATURES.slice(0, count);
+  meterUsage(c, 'ai', text.length * temperatures.length);
+
+  const samples = await Promise.all(temperatures.map(temperature =>
+    translateWithChain(route, { text, from: source, to, context, temperature }).catch(err => {
+      console.warn('[ALTERNATIVES] Sample failed:', err);
+      return null;
+    })
+  ));
+  return samples.filter((sample): sample is NonNullable<typeof sample> => !!sample && sample.translated !== text);
+}
+
+/**
+ * Run a Workers AI model, tracing the attempt for usage accounting.
+ * `assist` marks calls that support a translation rather than produce it.
+ */
+async function runModel(c: any, model: string, input: Record<string, unknown>, assist: boolean = false): Promise<unknown> {
+  const started = Date.now();
   try {
-    // Try fast model first
-    const result = await c.env.AI.run(CF_TEXT_MODEL_FAST, {
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: text },
-      ],
-      max_tokens: 2000,
-      temperature: 0.3,
-    }) as { response?: string };
-
-    if (result?.response) {
-      return result.response.trim();
-    }
+    const result = await c.env.AI.run(model, input);
+    traceModel(c, { model, ok: true, ms: Date.now() - started, assist: assist || undefined });
+    return result;
   } catch (err) {
-    console.warn('[CF-LLM] Fast model failed, trying primary:', err);
+    traceModel(c, { model, ok: false, ms: Date.now() - started, assist: assist || undefined });
+    throw err;
   }
-
-  // Fallback to primary model
-  const result = await c.env.AI.run(CF_TEXT_MODEL, {
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: text },
-    ],
-    max_tokens: 2000,
-    temperature: 0.3,
-  }) as { response?: string };
-
-  return result?.response?.trim() || text;
 }
 
 /**
- * Call CF AI for JSON structured output
+ * Ask the assist providers for JSON structured output (null when none answers
+ * with valid JSON)
  */
-async function callCFAIForJSON(
+async function callAIForJSON(
   c: any,
   systemPrompt: string,
   userPrompt: string
 ): Promise<any> {
-  try {
-    // Try fast model first
-    const result = await c.env.AI.run(CF_TEXT_MODEL_FAST, {
-      messages: [
-        { role: 'system', content: systemPrompt + '\n\nReturn ONLY valid JSON, no markdown code blocks.' },
-        { role: 'user', content: userPrompt },
-      ],
-      max_tokens: 2000,
-      temperature: 0.2,
-    }) as { response?: string };
-
-    if (result?.response) {
-      const cleaned = result.response.trim().replace(/```json\n?|\n?```/g, '');
-      return JSON.parse(cleaned);
-    }
-  } catch (err) {
-    console.warn('[CF-AI-JSON] Fast model failed:', err);
+  const { config, providers } = await requestProviders(c);
+  const chain = config.assist
+    .map(id => providers.get(id))
+    .filter((provider): provider is TranslationProvider => !!provider?.complete);
+
+  if (chain.some(provider => provider.remote)) {
+    meterUsage(c, 'ai', userPrompt.length);
   }
+  return completeWithChain(chain, {
+    system: systemPrompt + '\n\nReturn ONLY valid JSON, no markdown code blocks.',
+    prompt: userPrompt,
+    temperature: 0.2,
+    maxTokens: 2000,
+  }, (response) => JSON.parse(response.replace(/```json\n?|\n?```/g, '')), config.timeoutMs);
+}
+
+// ============ CACHE KEY HELPERS ============
+
+// Everything besides the language pair that changes a whole-text translation
+interface TranslationCacheInputs {
+  text: string;
+  context?: string;
+  glossary?: { id: number; version: number; updatedAt: string };
+  protect?: boolean | ProtectionOptions;
+  document?: { format: DocumentFormat; attributes: string[] };
+  memory?: number | false; // Translation memory reuse score, or off
+  qa?: boolean; // Entries carry a quality report
+  alternatives?: number; // Entries carry this many candidates
+  batch?: boolean; // Batch entries have their own shape
+}
+
+/**
+ * `{version}:{route}:{languages}:{sha256}` - the digest covers a canonical
+ * serialisation of every input, the prefix keeps keys listable for purges
+ */
+async function buildCacheKey(route: CacheRoute, languages: string[], inputs: Record<string, unknown>): Promise<string> {
+  const digest = await sha256Hex(canonicalJSON({ route, languages, ...inputs }));
+  return `${CACHE_VERSION}:${route}:${languages.join(':')}:${digest}`;
+}
+
+/**
+ * Whole-text cache key shared by /translate, batches and post-edit feedback
+ */
+function translationCacheKey(from: string, to: string, inputs: TranslationCacheInputs): Promise<string> {
+  return buildCacheKey('trans', [from, to], { ...inputs });
+}
+
+/**
+ * The v2 key the same request used (32-bit hashString fragments)
+ */
+function legacyTranslationCacheKey(from: string, to: string, inputs: TranslationCacheInputs): string {
+  const glossaryTag = inputs.glossary ? `g${inputs.glossary.id}-${hashString(inputs.glossary.updatedAt)}:` : '';
+  const protectionTag = inputs.protect !== undefined ? `p${hashString(JSON.stringify(inputs.protect))}:` : '';
+  const documentTag = inputs.document
+    ? `${inputs.document.format}${inputs.document.attributes.length ? `+${inputs.document.attributes.join(',')}` : ''}:`
+    : '';
+  const contextTag = inputs.batch && inputs.context ? `c${hashString(inputs.context)}:` : '';
+  return `${LEGACY_CACHE_VERSION}:trans:${from}:${to}:${glossaryTag}${protectionTag}${documentTag}${contextTag}${hashString(inputs.text)}`;
+}
+
+interface LegacyCacheLookup {
+  key: () => string;
+  matches: (entry: any) => boolean;
+}
+
+/**
+ * Read a JSON cache entry and its age in seconds (null when unknown),
+ * falling back to its legacy key until LEGACY_CACHE_UNTIL. Legacy keys could
+ * collide, so a legacy entry is only used when `matches` confirms it was
+ * stored for the same input.
+ */
+async function getCachedEntry(
+  c: any,
+  key: string,
+  legacy?: LegacyCacheLookup
+): Promise<{ value: any; age: number | null } | null> {
+  const { value, metadata } = await c.env.CACHE_KV.getWithMetadata(key);
+  if (value) {
+    return { value: JSON.parse(value), age: cacheAge(metadata as CacheMetadata | null) };
+  }
+
+  const until = Date.parse(c.env.LEGACY_CACHE_UNTIL ?? '');
+  if (!legacy || !(until > Date.now())) {
+    return null;
+  }
+
+  const entry = await c.env.CACHE_KV.get(legacy.key());
+  const parsed = entry ? JSON.parse(entry) : null;
+  return parsed && legacy.matches(parsed) ? { value: parsed, age: null } : null;
+}
+
+async function getCachedJSON(c: any, key: string, legacy?: LegacyCacheLookup): Promise<any | null> {
+  return (await getCachedEntry(c, key, legacy))?.value ?? null;
+}
+
+/**
+ * Refresh a stale cache entry after the response: the same translation with
+ * the cache read skipped, so the fresh result overwrites the stale entry
+ */
+function revalidateInBackground(c: any, p: PreparedTranslation, to: string): void {
+  const cachePolicy: CachePolicy = { ...p.cachePolicy, read: false };
+  const refresh: PreparedTranslation = { ...p, cachePolicy, segmentOptions: { ...p.segmentOptions, cachePolicy } };
+  runInBackground(c, translateForTarget(backgroundContext(c), refresh, to));
+}
+
+/**
+ * The request context for work done after the response: same bindings and
+ * principal, but nothing is metered or traced - the request's quota and
+ * usage event were settled when it responded
+ */
+function backgroundContext(c: any): any {
+  return new Proxy(c, {
+    get(target, prop) {
+      if (prop === 'get') {
+        return (key: string) => key === 'trace' || key === 'usage' ? undefined : target.get(key);
+      }
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
 
-  // Fallback to primary model
+/**
+ * Keep work running after the response (waitUntil), or await it outside Workers
+ */
+function runInBackground(c: any, work: Promise<unknown>): void {
+  const task = work.catch(err => console.error('[CACHE] Background task failed:', err));
   try {
-    const result = await c.env.AI.run(CF_TEXT_MODEL, {
-      messages: [
-        { role: 'system', content: systemPrompt + '\n\nReturn ONLY valid JSON, no markdown code blocks.' },
-        { role: 'user', content: userPrompt },
-      ],
-      max_tokens: 2000,
-      temperature: 0.2,
-    }) as { response?: string };
-
-    if (result?.response) {
-      const cleaned = result.response.trim().replace(/```json\n?|\n?```/g, '');
-      return JSON.parse(cleaned);
-    }
-  } catch (err) {
-    console.warn('[CF-AI-JSON] Primary model failed:', err);
+    c.executionCtx.waitUntil(task);
+  } catch {
+    // No execution context (tests) - the promise still settles on its own
   }
+}
 
-  return null;
+/**
+ * Write a cache entry along with its text index entry (see lib/cacheIndex.ts).
+ * `model` is kept in the metadata for plain-string (segment) entries.
+ */
+async function putCache(
+  c: any,
+  key: string,
+  value: string,
+  text: string,
+  options: { ttlSeconds?: number; model?: string } = {}
+): Promise<void> {
+  const expirationTtl = options.ttlSeconds ?? (parseInt(c.env.CACHE_TTL_SECONDS) || 86400);
+  const metadata: CacheMetadata = { cachedAt: Date.now(), model: options.model };
+  await Promise.all([
+    c.env.CACHE_KV.put(key, value, { expirationTtl, metadata }),
+    c.env.CACHE_KV.put(textIndexKey(await sha256Hex(indexText(text)), key), '', { expirationTtl }),
+  ]);
 }
 
+/**
+ * 32-bit string hash behind the v2 cache keys (legacy reads only)
+ */
 function hashString(str: string): string {
   let hash = 0;
   for (let i = 0; i < str.length; i++) {
@@ -1578,7 +3968,7 @@ const SUPPORTED_LANGUAGES = [
 // ============ EDUCATIONAL ENDPOINTS ============
 
 // Etymology lookup - traces word origins using Wiktionary + AI fallback
-app.post('/etymology', async (c) => {
+app.post('/etymology', requireScope('translate'), rateLimit(), trackUsage(), async (c) => {
   try {
     const { word, language = 'en' } = await c.req.json<{ word: string; language?: string }>();
 
@@ -1602,7 +3992,7 @@ app.post('/etymology', async (c) => {
 });
 
 // Conjugation tables for verbs
-app.post('/conjugate', async (c) => {
+app.post('/conjugate', requireScope('translate'), rateLimit(), trackUsage(), async (c) => {
   try {
     const { verb, language, tenses = ['present', 'past', 'future'] } = await c.req.json<{
       verb: string;
@@ -1614,11 +4004,15 @@ app.post('/conjugate', async (c) => {
       return c.json({ error: 'verb and language required' }, 400);
     }
 
-    const cacheKey = `conj:${language}:${hashString(verb)}:${tenses.join('-')}`;
-    const cached = await c.env.CACHE_KV.get(cacheKey);
+    const conjugationKey = await buildCacheKey('conj', [language], { verb, tenses });
+    const cached = await getCachedJSON(c, conjugationKey, {
+      key: () => `conj:${language}:${hashString(verb)}:${tenses.join('-')}`,
+      matches: (entry) => entry.verb === verb && entry.language === language,
+    });
 
     if (cached) {
-      return c.json({ ...JSON.parse(cached), cached: true });
+      traceCacheHit(c);
+      return c.json({ ...cached, cached: true });
     }
 
     // Use Cloudflare AI for conjugation
@@ -1641,7 +4035,7 @@ app.post('/conjugate', async (c) => {
 }
 Adapt subject pronouns to the target language conventions.`;
 
-    const conjugationData = await callCFAIForJSON(
+    const conjugationData = await callAIForJSON(
       c,
       systemPrompt,
       `Conjugate the ${language} verb "${verb}" in these tenses: ${tenses.join(', ')}`
@@ -1663,19 +4057,20 @@ Adapt subject pronouns to the target language conventions.`;
       cached: false,
     };
 
-    await c.env.CACHE_KV.put(cacheKey, JSON.stringify(responseData), {
-      expirationTtl: 604800,
-    });
+    await putCache(c, conjugationKey, JSON.stringify(responseData), verb, { ttlSeconds: 604800 });
 
     return c.json(responseData);
   } catch (err: any) {
+    if (err instanceof QuotaExceededError) {
+      return quotaExceededResponse(c, err);
+    }
     console.error('[CONJUGATE] Error:', err);
     return c.json({ error: 'Conjugation failed', message: err.message }, 500);
   }
 });
 
 // Word analysis for educational content
-app.post('/analyze', async (c) => {
+app.post('/analyze', requireScope('translate'), rateLimit(), trackUsage(), async (c) => {
   try {
     const { text, language = 'auto', features = ['pos', 'morphology'] } = await c.req.json<{
       text: string;
@@ -1710,7 +4105,7 @@ app.post('/analyze', async (c) => {
   "difficulty_level": "beginner/intermediate/advanced"
 }`;
 
-    const analysis = await callCFAIForJSON(
+    const analysis = await callAIForJSON(
       c,
       systemPrompt,
       `Analyze this ${language !== 'auto' ? language : ''} text: "${text}"`
@@ -1732,25 +4127,37 @@ app.post('/analyze', async (c) => {
       cached: false,
     });
   } catch (err: any) {
+    if (err instanceof QuotaExceededError) {
+      return quotaExceededResponse(c, err);
+    }
     console.error('[ANALYZE] Error:', err);
     return c.json({ error: 'Analysis failed', message: err.message }, 500);
   }
 });
 
 // Educational translation - includes learning context
-app.post('/translate/educational', async (c) => {
+app.post('/translate/educational', requireScope('translate'), rateLimit(), trackUsage(), async (c) => {
   try {
-    const { text, from = 'auto', to, level = 'intermediate' } = await c.req.json<{
+    const { text, from = 'auto', to, level = 'intermediate', glossaryId } = await c.req.json<{
       text: string;
       from?: string;
       to: string;
       level?: 'beginner' | 'intermediate' | 'advanced';
+      glossaryId?: number;
     }>();
 
     if (!text || !to) {
       return c.json({ error: 'text and to language required' }, 400);
     }
 
+    const { glossary, error: glossaryError } = await resolveGlossary(c, glossaryId);
+    if (glossaryError) {
+      return glossaryError;
+    }
+    const glossaryTerms = glossary
+      ? findGlossaryMatches(text, glossary.terms || [], to).map(m => m.requirement)
+      : [];
+
     // Use Cloudflare AI for educational translation
     const systemPrompt = `You are an educational translator. Provide translation with learning aids:
 {
@@ -1765,9 +4172,11 @@ app.post('/translate/educational', async (c) => {
   "cultural_notes": ["relevant cultural context"],
   "difficulty": "${level}"
 }
-Adapt explanations to ${level} level learners.`;
+Adapt explanations to ${level} level learners.${glossaryTerms.length > 0
+      ? `\nThe translation MUST use these terms exactly: ${glossaryTerms.map(r => `"${r.source}" => "${r.target}"`).join(', ')}.`
+      : ''}`;
 
-    const eduTranslation = await callCFAIForJSON(
+    const eduTranslation = await callAIForJSON(
       c,
       systemPrompt,
       `Translate from ${from === 'auto' ? 'detected language' : from} to ${to}: "${text}"`
@@ -1775,26 +4184,44 @@ Adapt explanations to ${level} level learners.`;
 
     if (!eduTranslation) {
       // Fallback to basic translation
-      const basicTranslation = await translateWithCF(c, text, from, to);
+      const basic = glossary
+        ? await translateWithGlossaryTerms(c, text, from, to, glossary)
+        : await translateText(c, text, from, to);
       return c.json({
         original: text,
         from_language: from,
         to_language: to,
         level,
-        translation: basicTranslation,
+        translation: basic.translated,
+        model: basic.model,
+        glossary: summariseGlossary(glossary, text, basic.translated, to),
         cached: false,
       });
     }
 
+    // Post-edit if the model ignored any required glossary term
+    if (typeof eduTranslation.translation === 'string' && glossaryTerms.some(r => !containsTerm(eduTranslation.translation, r))) {
+      const edited = await postEditGlossaryTerms(c, text, eduTranslation.translation, from, to, glossaryTerms);
+      if (edited) {
+        eduTranslation.translation = edited;
+      }
+    }
+
     return c.json({
       original: text,
       from_language: from,
       to_language: to,
       level,
       ...eduTranslation,
+      glossary: typeof eduTranslation.translation === 'string'
+        ? summariseGlossary(glossary, text, eduTranslation.translation, to)
+        : undefined,
       cached: false,
     });
   } catch (err: any) {
+    if (err instanceof QuotaExceededError) {
+      return quotaExceededResponse(c, err);
+    }
     console.error('[TRANSLATE/EDUCATIONAL] Error:', err);
     return c.json({ error: 'Educational translation failed', message: err.message }, 500);
   }
@@ -1806,13 +4233,21 @@ app.notFound((c) => c.json({
   path: c.req.path,
   availableEndpoints: [
     'POST /translate',
+    'POST /translate/file',
+    'POST /translate/subtitles',
     'POST /translate/batch',
+    'POST /translate/feedback',
     'POST /translate/educational',
     'POST /detect',
     'POST /etymology',
     'POST /conjugate',
     'POST /analyze',
+    'GET /glossaries',
+    'POST /glossaries',
     'GET /languages',
+    'GET /auth/whoami',
+    'GET /quota',
+    'GET /usage',
     'GET /health',
   ],
 }, 404));
@@ -0,0 +1,354 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Word Alignment
+ * =============================================================================
+ * Links source words to the words of their translation so hover tooltips and
+ * learned-word capture pair the right words, whatever the word order or script.
+ *
+ * Alignment strategy:
+ * 1. Dictionary anchoring - known words/phrases matched in the translation
+ * 2. LLM fallback - remaining words aligned by asking the text model
+ * 3. Positional interpolation between anchors (low confidence, display only)
+ * =============================================================================
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface TextSpan {
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface AlignmentLink {
+    source: TextSpan;
+    target: TextSpan;
+    confidence: number;
+    method: 'dictionary' | 'llm' | 'position';
+}
+
+export interface AlignmentOptions {
+    /** Dictionary lookup: source word/phrase -> target translation (or null) */
+    lookup: (phrase: string) => string | null;
+    /** Optional JSON-returning LLM call used for words the dictionary can't anchor */
+    askJSON?: (systemPrompt: string, userPrompt: string) => Promise<any>;
+    /** Skip the LLM step for long texts (token count of the source) */
+    maxLLMTokens?: number;
+}
+
+// Minimum confidence for a link to be trusted beyond display purposes
+export const TRUSTED_ALIGNMENT_CONFIDENCE = 0.6;
+
+// Longest dictionary phrase tried when anchoring ("how are you")
+const MAX_PHRASE_TOKENS = 3;
+
+// =============================================================================
+// TOKENISATION
+// =============================================================================
+
+/**
+ * Split text into word tokens with offsets. Uses Intl.Segmenter where available
+ * so CJK and Thai text (no spaces) still yields words.
+ */
+export function tokenize(text: string, language: string = 'en'): TextSpan[] {
+    const tokens: TextSpan[] = [];
+
+    try {
+        const segmenter = new Intl.Segmenter(language === 'auto' ? undefined : language, {
+            granularity: 'word',
+        });
+        for (const part of segmenter.segment(text)) {
+            if (part.isWordLike) {
+                tokens.push({ start: part.index, end: part.index + part.segment.length, text: part.segment });
+            }
+        }
+        return tokens;
+    } catch {
+        // Segmenter unavailable or unknown locale - fall back to a regex
+    }
+
+    for (const match of text.matchAll(/[\p{L}\p{M}\p{N}'’-]+/gu)) {
+        const start = match.index ?? 0;
+        tokens.push({ start, end: start + match[0].length, text: match[0] });
+    }
+    return tokens;
+}
+
+// =============================================================================
+// ALIGNMENT
+// =============================================================================
+
+/**
+ * Align a source text with its translation
+ */
+export async function alignTranslation(
+    sourceText: string,
+    targetText: string,
+    from: string,
+    to: string,
+    options: AlignmentOptions
+): Promise<AlignmentLink[]> {
+    const sourceTokens = tokenize(sourceText, from);
+    const targetTokens = tokenize(targetText, to);
+
+    if (sourceTokens.length === 0 || targetTokens.length === 0) {
+        return [];
+    }
+
+    const { links, aligned, used } = anchorWithDictionary(
+        sourceText,
+        targetText,
+        sourceTokens,
+        targetTokens,
+        options.lookup
+    );
+
+    // LLM fallback for words the dictionary couldn't anchor
+    const maxLLMTokens = options.maxLLMTokens ?? 60;
+    if (options.askJSON && sourceTokens.length <= maxLLMTokens && aligned.size < sourceTokens.length) {
+        const llmLinks = await alignWithLLM(
+            sourceText,
+            targetText,
+            from,
+            to,
+            sourceTokens.filter((_, i) => !aligned.has(i)),
+            targetTokens,
+            used,
+            options.askJSON
+        );
+        for (const link of llmLinks) {
+            links.push(link);
+            aligned.add(sourceTokens.findIndex(t => t.start === link.source.start));
+        }
+    }
+
+    // Positional interpolation for whatever is left
+    links.push(...interpolatePositions(sourceTokens, targetTokens, links, aligned));
+
+    return links.sort((a, b) => a.source.start - b.source.start);
+}
+
+/**
+ * Anchor source words/phrases whose dictionary translation occurs in the target
+ */
+function anchorWithDictionary(
+    sourceText: string,
+    targetText: string,
+    sourceTokens: TextSpan[],
+    targetTokens: TextSpan[],
+    lookup: (phrase: string) => string | null
+): { links: AlignmentLink[]; aligned: Set<number>; used: Set<number> } {
+    const links: AlignmentLink[] = [];
+    const aligned = new Set<number>();
+    const used = new Set<number>();
+
+    for (let i = 0; i < sourceTokens.length; i++) {
+        if (aligned.has(i)) continue;
+
+        // Try the longest phrase first ("thank you" before "thank")
+        for (let n = Math.min(MAX_PHRASE_TOKENS, sourceTokens.length - i); n >= 1; n--) {
+            const phraseTokens = sourceTokens.slice(i, i + n);
+            const phrase = phraseTokens.map(t => t.text.toLowerCase()).join(' ');
+            const translation = lookup(phrase);
+            if (!translation) continue;
+
+            const expected = (i / sourceTokens.length) * targetTokens.length;
+            const match = findTargetMatch(translation, targetTokens, used, expected);
+            if (!match) continue;
+
+            for (let t = match.from; t < match.to; t++) used.add(t);
+            for (let s = i; s < i + n; s++) aligned.add(s);
+
+            links.push({
+                source: spanOf(phraseTokens, sourceText),
+                target: spanOf(targetTokens.slice(match.from, match.to), targetText),
+                confidence: match.exact ? 1.0 : 0.8,
+                method: 'dictionary',
+            });
+            break;
+        }
+    }
+
+    return { links, aligned, used };
+}
+
+/**
+ * Find the unused target token run matching a dictionary translation, closest
+ * to where the word is expected. Slash-separated senses ("tu/vous") are tried
+ * individually; a shared prefix counts as an inflected (non-exact) match.
+ */
+function findTargetMatch(
+    translation: string,
+    targetTokens: TextSpan[],
+    used: Set<number>,
+    expectedIndex: number
+): { from: number; to: number; exact: boolean } | null {
+    let best: { from: number; to: number; exact: boolean; distance: number } | null = null;
+
+    for (const sense of translation.split('/')) {
+        const senseTokens = tokenize(sense.trim().toLowerCase()).map(t => t.text);
+        if (senseTokens.length === 0) continue;
+
+        for (let t = 0; t + senseTokens.length <= targetTokens.length; t++) {
+            let exact = true;
+            let matches = true;
+
+            for (let k = 0; k < senseTokens.length; k++) {
+                if (used.has(t + k)) {
+                    matches = false;
+                    break;
+                }
+                const candidate = targetTokens[t + k].text.toLowerCase();
+                if (candidate === senseTokens[k]) continue;
+                if (isInflectedMatch(candidate, senseTokens[k])) {
+                    exact = false;
+                    continue;
+                }
+                matches = false;
+                break;
+            }
+
+            if (!matches) continue;
+
+            const distance = Math.abs(t - expectedIndex) + (exact ? 0 : 0.5);
+            if (!best || distance < best.distance) {
+                best = { from: t, to: t + senseTokens.length, exact, distance };
+            }
+        }
+    }
+
+    return best ? { from: best.from, to: best.to, exact: best.exact } : null;
+}
+
+/**
+ * Treat "gatos"/"gato" or "mangé"/"manger" as the same word
+ */
+function isInflectedMatch(candidate: string, dictionaryForm: string): boolean {
+    if (candidate.length < 4 || dictionaryForm.length < 4) return false;
+    let shared = 0;
+    while (shared < candidate.length && shared < dictionaryForm.length && candidate[shared] === dictionaryForm[shared]) {
+        shared++;
+    }
+    return shared >= Math.max(4, Math.min(candidate.length, dictionaryForm.length) - 2);
+}
+
+/**
+ * Ask the text model which target words correspond to the unaligned source words
+ */
+async function alignWithLLM(
+    sourceText: string,
+    targetText: string,
+    from: string,
+    to: string,
+    unaligned: TextSpan[],
+    targetTokens: TextSpan[],
+    used: Set<number>,
+    askJSON: (systemPrompt: string, userPrompt: string) => Promise<any>
+): Promise<AlignmentLink[]> {
+    const systemPrompt = `You are a word alignment tool. Given a sentence and its translation, say which word(s) of the translation correspond to each listed source word.
+{
+  "alignments": [{"source": "source word", "target": "exact word(s) copied from the translation, or empty string if none"}]
+}`;
+
+    const userPrompt = `Source (${from}): ${sourceText}
+Translation (${to}): ${targetText}
+Source words: ${unaligned.map(t => t.text).join(', ')}`;
+
+    let response: any;
+    try {
+        response = await askJSON(systemPrompt, userPrompt);
+    } catch (err) {
+        console.warn('[ALIGN] LLM alignment failed:', err);
+        return [];
+    }
+
+    const alignments: Array<{ source?: string; target?: string }> = Array.isArray(response?.alignments)
+        ? response.alignments
+        : [];
+
+    const links: AlignmentLink[] = [];
+    const remaining = [...unaligned];
+
+    for (const item of alignments) {
+        if (!item.source || !item.target) continue;
+
+        const sourceIndex = remaining.findIndex(t => t.text.toLowerCase() === item.source!.toLowerCase());
+        if (sourceIndex === -1) continue;
+
+        const expected = targetTokens.length / 2;
+        const match = findTargetMatch(item.target, targetTokens, used, expected);
+        if (!match || !match.exact) continue;
+
+        for (let t = match.from; t < match.to; t++) used.add(t);
+
+        links.push({
+            source: remaining[sourceIndex],
+            target: spanOf(targetTokens.slice(match.from, match.to), targetText),
+            confidence: 0.7,
+            method: 'llm',
+        });
+        remaining.splice(sourceIndex, 1);
+    }
+
+    return links;
+}
+
+/**
+ * Map unaligned source words to the target position implied by the
+ * surrounding anchors. Never trusted for learning.
+ */
+function interpolatePositions(
+    sourceTokens: TextSpan[],
+    targetTokens: TextSpan[],
+    anchors: AlignmentLink[],
+    aligned: Set<number>
+): AlignmentLink[] {
+    // (sourceIndex, targetIndex) pairs, plus virtual anchors at both ends
+    const points: Array<[number, number]> = [[-1, -1]];
+    for (const link of anchors) {
+        const s = sourceTokens.findIndex(t => t.start === link.source.start);
+        const t = targetTokens.findIndex(tk => tk.start === link.target.start);
+        if (s !== -1 && t !== -1) points.push([s, t]);
+    }
+    points.push([sourceTokens.length, targetTokens.length]);
+    points.sort((a, b) => a[0] - b[0]);
+
+    const links: AlignmentLink[] = [];
+    for (let i = 0; i < sourceTokens.length; i++) {
+        if (aligned.has(i)) continue;
+
+        let prev = points[0];
+        let next = points[points.length - 1];
+        for (const point of points) {
+            if (point[0] < i) prev = point;
+            if (point[0] > i) {
+                next = point;
+                break;
+            }
+        }
+
+        const ratio = (i - prev[0]) / (next[0] - prev[0]);
+        const estimate = Math.round(prev[1] + ratio * (next[1] - prev[1]));
+        const t = Math.min(Math.max(estimate, 0), targetTokens.length - 1);
+
+        links.push({
+            source: sourceTokens[i],
+            target: targetTokens[t],
+            confidence: 0.3,
+            method: 'position',
+        });
+    }
+
+    return links;
+}
+
+/**
+ * Span covering a run of consecutive tokens
+ */
+function spanOf(tokens: TextSpan[], text: string): TextSpan {
+    const start = tokens[0].start;
+    const end = tokens[tokens.length - 1].end;
+    return { start, end, text: text.slice(start, end) };
+}
@@ -0,0 +1,147 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Alternative Translations (n-best)
+ * =============================================================================
+ * Candidates for short phrases, so writers can pick between options:
+ *
+ * - Dictionary senses: slash-separated entries ("tu/vous") are separate
+ *   options, as are the translations of an ambiguous non-English source
+ *   word; phrases combine the senses of each word, first senses first
+ * - Model outputs: the main translation plus samples at higher temperatures.
+ *   A candidate produced by several samples is more likely to be right.
+ *
+ * Candidates are de-duplicated (case and punctuation insensitive) and ranked
+ * by confidence.
+ * =============================================================================
+ */
+
+import { translateWord } from './dictionary';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface TranslationAlternative {
+    translated: string;
+    source: 'dictionary' | 'api';
+    provider: string;       // 'dictionary' or the provider id
+    model?: string;
+    confidence: number;     // 0-1
+}
+
+export interface ModelSample {
+    translated: string;
+    provider: string;
+    model: string;
+}
+
+export const MAX_ALTERNATIVES = 5;
+
+// Texts longer than this get a single translation
+export const MAX_ALTERNATIVE_TEXT_LENGTH = 200;
+
+// Sense combinations considered for a phrase, before ranking
+const MAX_SENSE_COMBINATIONS = 50;
+
+// Model candidates: base confidence plus a share for agreement between samples
+const MODEL_BASE_CONFIDENCE = 0.5;
+const MODEL_AGREEMENT_WEIGHT = 0.4;
+
+// =============================================================================
+// DICTIONARY SENSES
+// =============================================================================
+
+/**
+ * Split a dictionary translation into its senses ("tu/vous" -> ["tu", "vous"])
+ */
+export function splitSenses(translation: string): string[] {
+    return translation.split('/').map(sense => sense.trim()).filter(Boolean);
+}
+
+/**
+ * Alternatives built from dictionary senses, or [] unless every word is in
+ * the dictionary. Confidence drops by 0.1 per alternative sense used.
+ */
+export function dictionaryAlternatives(words: string[], to: string, limit: number, from: string = 'en'): TranslationAlternative[] {
+    const senses: string[][] = [];
+    for (const word of words) {
+        const entry = translateWord(word, to, from);
+        if (!entry) {
+            return [];
+        }
+        senses.push([...new Set([entry.translated, ...(entry.alternatives ?? [])].flatMap(splitSenses))]);
+    }
+    if (senses.length === 0) {
+        return [];
+    }
+
+    // Combinations as [words, cost], where cost = sum of sense indices
+    let combinations: Array<[string[], number]> = [[[], 0]];
+    for (const options of senses) {
+        combinations = combinations
+            .flatMap(([prefix, cost]) => options.map((sense, i): [string[], number] => [[...prefix, sense], cost + i]))
+            .sort((a, b) => a[1] - b[1])
+            .slice(0, MAX_SENSE_COMBINATIONS);
+    }
+
+    return combinations.slice(0, limit).map(([parts, cost]) => ({
+        translated: parts.join(' '),
+        source: 'dictionary',
+        provider: 'dictionary',
+        confidence: Math.max(0.5, Math.round((1 - cost * 0.1) * 100) / 100),
+    }));
+}
+
+// =============================================================================
+// MODEL SAMPLES
+// =============================================================================
+
+function candidateKey(text: string): string {
+    return text.toLowerCase().normalize('NFKC').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Rank model samples: confidence grows with the share of samples that
+ * produced the same candidate. The first sample (the main translation) wins
+ * ties.
+ */
+export function sampleAlternatives(samples: ModelSample[]): TranslationAlternative[] {
+    const groups = new Map<string, { sample: ModelSample; count: number; first: number }>();
+
+    samples.forEach((sample, i) => {
+        const key = candidateKey(sample.translated);
+        if (!key) return;
+        const group = groups.get(key);
+        if (group) {
+            group.count++;
+        } else {
+            groups.set(key, { sample, count: 1, first: i });
+        }
+    });
+
+    return [...groups.values()]
+        .sort((a, b) => b.count - a.count || a.first - b.first)
+        .map(({ sample, count }) => ({
+            translated: sample.translated,
+            source: 'api' as const,
+            provider: sample.provider,
+            model: sample.model,
+            confidence: Math.round((MODEL_BASE_CONFIDENCE + MODEL_AGREEMENT_WEIGHT * (count / samples.length)) * 100) / 100,
+        }));
+}
+
+/**
+ * Merge candidate lists, keeping the most confident copy of each distinct
+ * translation, best first
+ */
+export function mergeAlternatives(lists: TranslationAlternative[][], limit: number): TranslationAlternative[] {
+    const best = new Map<string, TranslationAlternative>();
+    for (const alternative of lists.flat()) {
+        const key = candidateKey(alternative.translated);
+        const current = best.get(key);
+        if (key && (!current || alternative.confidence > current.confidence)) {
+            best.set(key, alternative);
+        }
+    }
+    return [...best.values()].sort((a, b) => b.confidence - a.confidence).slice(0, limit);
+}
@@ -0,0 +1,291 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - API Key Authentication
+ * =============================================================================
+ * Scoped API keys for the translation, learning and admin routes. Keys are
+ * issued once and only their SHA-256 hash is stored; the secret part is
+ * compared in constant time.
+ *
+ * Key format: `lk_{id}_{secret}`, sent as `Authorization: Bearer <key>`,
+ * `X-API-Key` or (legacy) `X-Admin-Key`.
+ *
+ * Storage Structure (KV: API_KEYS_KV):
+ * - `key:{id}` -> ApiKeyRecord JSON
+ *
+ * The ADMIN_API_KEY secret is a root key with every scope, so keys can be
+ * issued before API_KEYS_KV holds any.
+ * =============================================================================
+ */
+
+import type { Context, MiddlewareHandler } from 'hono';
+import type { RateLimits } from './rateLimit';
+import { sha256Hex } from './digest';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type ApiScope =
+    | 'translate'       // Translation, detection and glossary reads
+    | 'glossary:write'  // Create glossaries; edit and delete the ones the key created
+    | 'learn:write'     // Learned words, feedback and TM imports
+    | 'admin:cache'     // Cache management
+    | 'admin:pr'        // Learning config, dictionary PRs and large bulk tiers
+    | 'admin:providers' // Provider config and routing table
+    | 'export'          // Dictionary, learned word, TM and feedback exports, usage reports
+    | 'admin:keys';     // Issue, rotate and revoke API keys
+
+export interface ApiKeyRecord {
+    id: string;
+    name: string;
+    scopes: ApiScope[];
+    limits?: Partial<RateLimits>;   // Overrides of the default API key limits
+    hash: string;
+    createdAt: string;
+    expiresAt: string | null;
+    revokedAt: string | null;
+    rotatedAt: string | null;
+    previousHash?: string;          // Secret replaced by the last rotation...
+    previousExpiresAt?: string;     // ...still accepted until this time
+}
+
+export type ApiKeySummary = Omit<ApiKeyRecord, 'hash' | 'previousHash'>;
+
+export interface Principal {
+    id: string;              // Key id, 'root' or 'anonymous'
+    scopes: ApiScope[];
+    limits?: Partial<RateLimits>;
+}
+
+export interface AuthEnv {
+    API_KEYS_KV?: KVNamespace;
+    ADMIN_API_KEY?: string;
+    REQUIRE_API_KEY?: string; // 'true' = no anonymous translation access
+}
+
+export const API_SCOPES: ApiScope[] = [
+    'translate', 'glossary:write', 'learn:write', 'admin:cache', 'admin:pr', 'admin:providers', 'export', 'admin:keys',
+];
+
+// Scopes granted without a key (unless REQUIRE_API_KEY is set)
+const ANONYMOUS_SCOPES: ApiScope[] = ['translate'];
+
+const KEY_PATTERN = /^lk_([a-z0-9]{12})_([A-Za-z0-9_-]{32,})$/;
+
+// =============================================================================
+// HASHING
+// =============================================================================
+
+/**
+ * Compare two strings without an early exit on the first difference
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+    const left = new TextEncoder().encode(a);
+    const right = new TextEncoder().encode(b);
+    let diff = left.length ^ right.length;
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+    }
+    return diff === 0;
+}
+
+function randomToken(bytes: number): string {
+    const data = crypto.getRandomValues(new Uint8Array(bytes));
+    return btoa(String.fromCharCode(...data)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomId(): string {
+    const data = crypto.getRandomValues(new Uint8Array(12));
+    return [...data].map(b => 'abcdefghijklmnopqrstuvwxyz0123456789'[b % 36]).join('');
+}
+
+// =============================================================================
+// KEY VERIFICATION
+// =============================================================================
+
+/**
+ * Read the presented key from the request headers
+ */
+export function presentedKey(c: Context): string | null {
+    const bearer = c.req.header('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    return (bearer || c.req.header('X-API-Key') || c.req.header('X-Admin-Key') || '').trim() || null;
+}
+
+/**
+ * Resolve a presented key to its principal, or null when it isn't valid
+ */
+export async function verifyApiKey(env: AuthEnv, key: string): Promise<Principal | null> {
+    if (env.ADMIN_API_KEY && timingSafeEqual(key, env.ADMIN_API_KEY)) {
+        return { id: 'root', scopes: [...API_SCOPES] };
+    }
+
+    const match = key.match(KEY_PATTERN);
+    if (!match || !env.API_KEYS_KV) {
+        return null;
+    }
+
+    const record = await env.API_KEYS_KV.get<ApiKeyRecord>(`key:${match[1]}`, 'json');
+    if (!record || record.revokedAt) {
+        return null;
+    }
+
+    const now = Date.now();
+    if (record.expiresAt && Date.parse(record.expiresAt) <= now) {
+        return null;
+    }
+
+    const hash = await sha256Hex(match[2]);
+    const current = timingSafeEqual(hash, record.hash);
+    const previous = !!record.previousHash && !!record.previousExpiresAt
+        && Date.parse(record.previousExpiresAt) > now
+        && timingSafeEqual(hash, record.previousHash);
+
+    return current || previous ? { id: record.id, scopes: record.scopes, limits: record.limits } : null;
+}
+
+export function hasScope(principal: Principal | undefined, scope: ApiScope): boolean {
+    return !!principal && principal.scopes.includes(scope);
+}
+
+/**
+ * Middleware every protected route declares its scope with. Sets the
+ * `principal` variable for handlers that need finer-grained checks.
+ */
+export function requireScope<E extends { Bindings: AuthEnv; Variables: { principal: Principal } }>(
+    scope: ApiScope
+): MiddlewareHandler<E> {
+    return async (c, next) => {
+        const key = presentedKey(c);
+        let principal: Principal | null;
+
+        if (key) {
+            principal = await verifyApiKey(c.env, key);
+            if (!principal) {
+                return c.json({ error: 'Invalid API key' }, 401);
+            }
+        } else if (c.env.REQUIRE_API_KEY !== 'true' && ANONYMOUS_SCOPES.includes(scope)) {
+            principal = { id: 'anonymous', scopes: [...ANONYMOUS_SCOPES] };
+        } else {
+            return c.json({ error: 'API key required', scope }, 401);
+        }
+
+        if (!hasScope(principal, scope)) {
+            return c.json({ error: 'Insufficient scope', required: scope }, 403);
+        }
+
+        c.set('principal', principal);
+        await next();
+    };
+}
+
+// =============================================================================
+// KEY MANAGEMENT
+// =============================================================================
+
+function summarise(record: ApiKeyRecord): ApiKeySummary {
+    const { hash, previousHash, ...summary } = record;
+    return summary;
+}
+
+/**
+ * Validate requested scopes, throwing on unknown ones
+ */
+export function parseScopes(scopes: unknown): ApiScope[] {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+        throw new Error(`scopes must be a non-empty array of: ${API_SCOPES.join(', ')}`);
+    }
+    const unknown = scopes.filter(scope => !API_SCOPES.includes(scope));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown scopes: ${unknown.join(', ')}`);
+    }
+    return [...new Set(scopes as ApiScope[])];
+}
+
+/**
+ * Issue a new key. The plain key is only ever returned here.
+ */
+export async function createApiKey(
+    kv: KVNamespace,
+    input: { name: string; scopes: ApiScope[]; limits?: Partial<RateLimits>; expiresAt?: string | null }
+): Promise<{ key: string; record: ApiKeySummary }> {
+    const id = randomId();
+    const secret = randomToken(32);
+    const record: ApiKeyRecord = {
+        id,
+        name: input.name,
+        scopes: input.scopes,
+        limits: input.limits,
+        hash: await sha256Hex(secret),
+        createdAt: new Date().toISOString(),
+        expiresAt: input.expiresAt ?? null,
+        revokedAt: null,
+        rotatedAt: null,
+    };
+
+    await kv.put(`key:${id}`, JSON.stringify(record));
+    return { key: `lk_${id}_${secret}`, record: summarise(record) };
+}
+
+/**
+ * Replace a key's secret. The old secret keeps working for `graceSeconds`.
+ */
+export async function rotateApiKey(
+    kv: KVNamespace,
+    id: string,
+    graceSeconds: number = 0
+): Promise<{ key: string; record: ApiKeySummary } | null> {
+    const record = await kv.get<ApiKeyRecord>(`key:${id}`, 'json');
+    if (!record || record.revokedAt) {
+        return null;
+    }
+
+    const secret = randomToken(32);
+    const now = new Date();
+    const updated: ApiKeyRecord = {
+        ...record,
+        hash: await sha256Hex(secret),
+        rotatedAt: now.toISOString(),
+        previousHash: graceSeconds > 0 ? record.hash : undefined,
+        previousExpiresAt: graceSeconds > 0 ? new Date(now.getTime() + graceSeconds * 1000).toISOString() : undefined,
+    };
+
+    await kv.put(`key:${id}`, JSON.stringify(updated));
+    return { key: `lk_${id}_${secret}`, record: summarise(updated) };
+}
+
+/**
+ * Revoke a key immediately. The record is kept for auditing.
+ */
+export async function revokeApiKey(kv: KVNamespace, id: string): Promise<ApiKeySummary | null> {
+    const record = await kv.get<ApiKeyRecord>(`key:${id}`, 'json');
+    if (!record) {
+        return null;
+    }
+
+    const updated: ApiKeyRecord = {
+        ...record,
+        revokedAt: record.revokedAt ?? new Date().toISOString(),
+        previousHash: undefined,
+        previousExpiresAt: undefined,
+    };
+
+    await kv.put(`key:${id}`, JSON.stringify(updated));
+    return summarise(updated);
+}
+
+export async function listApiKeys(kv: KVNamespace): Promise<ApiKeySummary[]> {
+    const keys: ApiKeySummary[] = [];
+    let cursor: string | undefined;
+
+    do {
+        const page = await kv.list({ prefix: 'key:', cursor });
+        for (const { name } of page.keys) {
+            const record = await kv.get<ApiKeyRecord>(name, 'json');
+            if (record) keys.push(summarise(record));
+        }
+        cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return keys.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
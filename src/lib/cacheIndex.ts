@@ -0,0 +1,185 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Cache Index & Purge Jobs
+ * =============================================================================
+ * Cache keys are laid out as `{version}:{route}:{from}:{to}:...` (conj keys
+ * as `{version}:conj:{language}:...`), so KV prefix listing finds them by
+ * version, route and language pair. Each cache write also adds a text index
+ * entry so every key derived from a given text can be purged.
+ *
+ * Storage Structure (KV: CACHE_KV):
+ * - `idx:text:{textHash}:{cacheKey}` -> '' (same TTL as the cache entry)
+ * - `job:purge:{id}` -> PurgeJob JSON
+ *
+ * KV has no bulk delete, so purges run as jobs: a bounded number of list and
+ * delete operations per run, resumed until every prefix has been scanned.
+ * =============================================================================
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type CacheRoute = 'trans' | 'seg' | 'conj';
+
+export type PurgeScope =
+    | { type: 'all' }
+    | { type: 'version'; version: string }
+    | { type: 'route'; version: string; route: CacheRoute }
+    | { type: 'pair'; version: string; from: string; to: string }
+    | { type: 'text'; textHashes: string[] };
+
+export interface PurgeJob {
+    id: string;
+    scope: PurgeScope;
+    status: 'running' | 'done' | 'failed';
+    prefixes: string[];     // Still to scan; the first is in progress
+    cursor: string | null;  // KV list cursor within prefixes[0]
+    scanned: number;
+    deleted: number;
+    createdAt: string;
+    updatedAt: string;
+    leaseUntil: number;     // Another run may not start before this (ms)
+    error?: string;
+}
+
+export const CACHE_ROUTES: CacheRoute[] = ['trans', 'seg', 'conj'];
+
+// Routes whose keys carry a language pair
+const PAIR_ROUTES: CacheRoute[] = ['trans', 'seg'];
+
+const TEXT_INDEX_PREFIX = 'idx:text:';
+const JOB_PREFIX = 'job:purge:';
+
+// Keys listed (and deleted) per step
+const PAGE_SIZE = 100;
+
+// KV operations one run may use, under the Workers per-invocation limit
+const OPS_PER_RUN = 800;
+
+// How long a run holds its lease
+const LEASE_MS = 30_000;
+
+// Finished jobs are kept this long for progress queries
+const JOB_TTL_SECONDS = 7 * 86400;
+
+// =============================================================================
+// TEXT INDEX
+// =============================================================================
+
+/**
+ * Normal form of a text for the index: purging "Hello  World" also purges
+ * entries cached for "hello world"
+ */
+export function indexText(text: string): string {
+    return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function textIndexKey(textHash: string, cacheKey: string): string {
+    return `${TEXT_INDEX_PREFIX}${textHash}:${cacheKey}`;
+}
+
+// =============================================================================
+// PURGE JOBS
+// =============================================================================
+
+/**
+ * KV prefixes a scope covers
+ */
+export function purgePrefixes(scope: PurgeScope): string[] {
+    switch (scope.type) {
+        case 'all':
+            return [''];
+        case 'version':
+            return [`${scope.version}:`];
+        case 'route':
+            return [`${scope.version}:${scope.route}:`];
+        case 'pair':
+            return PAIR_ROUTES.map(route => `${scope.version}:${route}:${scope.from}:${scope.to}:`);
+        case 'text':
+            return [...new Set(scope.textHashes)].map(hash => `${TEXT_INDEX_PREFIX}${hash}:`);
+    }
+}
+
+export async function createPurgeJob(kv: KVNamespace, scope: PurgeScope): Promise<PurgeJob> {
+    const now = new Date().toISOString();
+    const job: PurgeJob = {
+        id: crypto.randomUUID(),
+        scope,
+        status: 'running',
+        prefixes: purgePrefixes(scope),
+        cursor: null,
+        scanned: 0,
+        deleted: 0,
+        createdAt: now,
+        updatedAt: now,
+        leaseUntil: 0,
+    };
+
+    await saveJob(kv, job);
+    return job;
+}
+
+export async function getPurgeJob(kv: KVNamespace, id: string): Promise<PurgeJob | null> {
+    return kv.get<PurgeJob>(`${JOB_PREFIX}${id}`, 'json');
+}
+
+async function saveJob(kv: KVNamespace, job: PurgeJob): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    await kv.put(`${JOB_PREFIX}${job.id}`, JSON.stringify(job), { expirationTtl: JOB_TTL_SECONDS });
+}
+
+/**
+ * Advance a job by up to OPS_PER_RUN KV operations. Returns the job as
+ * saved; a `running` job needs another run to finish.
+ */
+export async function runPurgeJob(kv: KVNamespace, id: string): Promise<PurgeJob | null> {
+    const job = await getPurgeJob(kv, id);
+    if (!job || job.status !== 'running' || job.leaseUntil > Date.now()) {
+        return job;
+    }
+
+    job.leaseUntil = Date.now() + LEASE_MS;
+    await saveJob(kv, job);
+
+    let ops = 2;
+    try {
+        while (job.prefixes.length > 0 && ops + PAGE_SIZE * 2 + 2 <= OPS_PER_RUN) {
+            const prefix = job.prefixes[0];
+            const page = await kv.list({ prefix, cursor: job.cursor ?? undefined, limit: PAGE_SIZE });
+            ops++;
+
+            const deletions = page.keys
+                .map(({ name }) => name)
+                .filter(name => !name.startsWith(JOB_PREFIX))
+                .flatMap(name => job.scope.type === 'text'
+                    ? [name, name.slice(prefix.length)]   // Index entry and the cache key it points at
+                    : [name]);
+
+            await Promise.all(deletions.map(name => kv.delete(name)));
+            ops += deletions.length;
+            job.scanned += page.keys.length;
+            job.deleted += job.scope.type === 'text' ? deletions.length / 2 : deletions.length;
+
+            if (page.list_complete) {
+                job.prefixes.shift();
+                job.cursor = null;
+            } else {
+                job.cursor = page.cursor;
+            }
+            await saveJob(kv, job);
+            ops++;
+        }
+
+        if (job.prefixes.length === 0) {
+            job.status = 'done';
+        }
+    } catch (err: any) {
+        job.status = 'failed';
+        job.error = err.message;
+    }
+
+    job.leaseUntil = 0;
+    await saveJob(kv, job);
+    return job;
+}
@@ -0,0 +1,109 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Per-Request Cache Policy
+ * =============================================================================
+ * Cache-Control style directives a caller can send with a translation
+ * request (`Cache-Control` header or the `cache` body field):
+ *
+ * - `no-store`                 Don't read or write the cache
+ * - `no-cache`                 Don't read the cache, but store the result
+ * - `max-age=N`                Only use entries cached in the last N seconds
+ * - `stale-while-revalidate=N` Serve entries up to N seconds past max-age,
+ *                              refreshing them in the background
+ *
+ * Entry age comes from the `cachedAt` KV metadata written with each entry.
+ * =============================================================================
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface CachePolicy {
+    read: boolean;
+    write: boolean;
+    maxAge: number | null;          // Seconds; null = any age
+    staleWhileRevalidate: number;   // Seconds past maxAge a stale entry may be served
+}
+
+export type CacheFreshness = 'fresh' | 'stale' | 'expired';
+
+export interface CacheMetadata {
+    cachedAt: number;   // ms since epoch
+    model?: string;     // Model that produced a plain-string entry
+}
+
+export const DEFAULT_CACHE_POLICY: CachePolicy = {
+    read: true,
+    write: true,
+    maxAge: null,
+    staleWhileRevalidate: 0,
+};
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Parse comma-separated directives. Unknown directives are ignored, as HTTP
+ * caches do; malformed numbers throw.
+ */
+export function parseCachePolicy(directives?: string | null): CachePolicy {
+    const policy: CachePolicy = { ...DEFAULT_CACHE_POLICY };
+    if (!directives) {
+        return policy;
+    }
+
+    for (const directive of directives.split(',')) {
+        const [name, value] = directive.trim().toLowerCase().split('=').map(part => part.trim());
+
+        switch (name) {
+            case 'no-store':
+                policy.read = false;
+                policy.write = false;
+                break;
+            case 'no-cache':
+                policy.read = false;
+                break;
+            case 'max-age':
+                policy.maxAge = parseSeconds(name, value);
+                break;
+            case 'stale-while-revalidate':
+                policy.staleWhileRevalidate = parseSeconds(name, value);
+                break;
+        }
+    }
+
+    return policy;
+}
+
+function parseSeconds(name: string, value: string | undefined): number {
+    if (!value || !/^\d+$/.test(value)) {
+        throw new Error(`${name} must be a whole number of seconds`);
+    }
+    return parseInt(value, 10);
+}
+
+// =============================================================================
+// FRESHNESS
+// =============================================================================
+
+/**
+ * How a cached entry of the given age (seconds, null if unknown) may be used
+ */
+export function cacheFreshness(policy: CachePolicy, age: number | null): CacheFreshness {
+    if (policy.maxAge === null) {
+        return 'fresh';
+    }
+    if (age === null) {
+        return 'expired';
+    }
+    if (age <= policy.maxAge) {
+        return 'fresh';
+    }
+    return age <= policy.maxAge + policy.staleWhileRevalidate ? 'stale' : 'expired';
+}
+
+export function cacheAge(metadata: CacheMetadata | null | undefined, now: number = Date.now()): number | null {
+    return metadata?.cachedAt ? Math.max(Math.floor((now - metadata.cachedAt) / 1000), 0) : null;
+}
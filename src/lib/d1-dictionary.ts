@@ -8,17 +8,18 @@
  */
 
 import type { DictionaryEntry, EtymologyData, TranslationResult } from './dictionary';
+import { addPhrase, createPhraseTrie, matchPhrases, phraseCandidates } from './phraseTrie';
 
 // =============================================================================
 // TYPE DEFINITIONS
 // =============================================================================
 
 // D1Database interface for Cloudflare Workers
-interface D1Database {
+export interface D1Database {
     prepare(query: string): D1PreparedStatement;
 }
 
-interface D1PreparedStatement {
+export interface D1PreparedStatement {
     bind(...values: unknown[]): D1PreparedStatement;
     first<T>(): Promise<T | null>;
     all<T>(): Promise<{ results?: T[] }>;
@@ -99,7 +100,8 @@ export async function translateWordFromD1(
 }
 
 /**
- * Translate multiple words from D1
+ * Translate multiple words from D1. Multi-word entries and variants are
+ * matched before single words.
  */
 export async function translateWordsFromD1(
     db: D1Database,
@@ -109,40 +111,81 @@ export async function translateWordsFromD1(
     const translated: TranslationResult[] = [];
     const notFound: string[] = [];
 
-    // Batch lookup for efficiency
-    const placeholders = words.map(() => '?').join(',');
-    const normalizedWords = words.map((w) => w.toLowerCase().trim());
+    // Batch lookup of every n-gram, as a headword or a variant
+    const candidates = phraseCandidates(words);
+    if (candidates.length === 0) {
+        return { translated, notFound };
+    }
+    const placeholders = candidates.map(() => '?').join(',');
 
     const results = await db
-        .prepare(`SELECT * FROM dictionary_entries WHERE word IN (${placeholders})`)
-        .bind(...normalizedWords)
+        .prepare(
+            `SELECT * FROM dictionary_entries WHERE word IN (${placeholders})
+             OR (variants_json IS NOT NULL AND EXISTS (
+                 SELECT 1 FROM json_each(variants_json) v WHERE lower(v.value) IN (${placeholders})
+             ))`
+        )
+        .bind(...candidates, ...candidates)
         .all<D1DictionaryEntry>();
 
     const entriesMap = new Map<string, DictionaryEntry>();
+    const trie = createPhraseTrie();
     for (const row of results.results || []) {
-        entriesMap.set(row.word, rowToDictionaryEntry(row));
+        const entry = rowToDictionaryEntry(row);
+        entriesMap.set(row.word, entry);
+        addPhrase(trie, row.word);
+        for (const variant of entry.variants ?? []) {
+            addPhrase(trie, variant, row.word);
+        }
     }
 
-    for (const word of words) {
-        const normalized = word.toLowerCase().trim();
-        const entry = entriesMap.get(normalized);
+    for (const token of matchPhrases(words, [trie])) {
+        const entry = entriesMap.get(token.key);
 
         if (entry && entry.translations[targetLang]) {
             translated.push({
-                original: word,
+                original: token.text,
                 translated: entry.translations[targetLang],
                 source: 'dictionary',
                 etymology: entry.etymology,
                 confidence: 1.0,
             });
         } else {
-            notFound.push(word);
+            notFound.push(token.text);
         }
     }
 
     return { translated, notFound };
 }
 
+/**
+ * English entries whose `language` translation is one of the given words
+ * (slash-separated senses included), for the reverse index
+ */
+export async function findEntriesByTranslationFromD1(
+    db: D1Database,
+    words: string[],
+    language: string
+): Promise<Array<{ word: string; entry: DictionaryEntry }>> {
+    const terms = [...new Set(words.map((w) => w.toLowerCase().trim()).filter(Boolean))];
+    if (terms.length === 0) {
+        return [];
+    }
+
+    // '/tu/vous/' contains '/vous/': matches whole senses only
+    const conditions = terms.map(() => "instr('/' || lower(t.value) || '/', '/' || ? || '/') > 0").join(' OR ');
+
+    const results = await db
+        .prepare(
+            `SELECT DISTINCT d.* FROM dictionary_entries d, json_each(d.translations_json) t
+             WHERE d.source_language = 'en' AND t.key = ? AND (${conditions})`
+        )
+        .bind(language, ...terms)
+        .all<D1DictionaryEntry>();
+
+    return (results.results || []).map((row) => ({ word: row.word, entry: rowToDictionaryEntry(row) }));
+}
+
 /**
  * Search dictionary entries by pattern
  */
@@ -4,6 +4,12 @@
  * =============================================================================
  * Provides fast, zero-cost translations for common words using static dictionaries.
  * Falls back to OpenAI API for words not in dictionary.
+ *
+ * Entries are keyed by English word. Other source languages are looked up
+ * through the reverse index (see reverseIndex.ts), pivoting through English.
+ * Multi-word entries are matched before single words (see phraseTrie.ts), and
+ * inflected English words are looked up by their lemma (see morphology.ts).
+ * Whole texts keep their case, punctuation and spacing (see surface.ts).
  * 
  * Dictionary Format:
  * {
@@ -17,6 +23,19 @@
  * =============================================================================
  */
 
+import { getAllWords, lookupCompact } from './dictionaryOptimized';
+import { analyseWord, reinflect, type Inflection, type WordAnalysis } from './morphology';
+import { renderTranslation, splitSurface, type SurfaceLayout, type TranslatedSpan } from './surface';
+import { addPhrase, createPhraseTrie, matchPhrases, type PhraseToken, type PhraseTrie } from './phraseTrie';
+import {
+    createReverseIndex,
+    indexEntry,
+    lookupSenses,
+    resolveSenses,
+    type ReverseIndex,
+    type ReverseSense,
+} from './reverseIndex';
+
 // =============================================================================
 // TYPE DEFINITIONS
 // =============================================================================
@@ -51,12 +70,28 @@ export interface Dictionary {
     words: Record<string, DictionaryEntry>;
 }
 
+/**
+ * A source text split into dictionary tokens, ready to translate into any
+ * number of target languages
+ */
+export interface DictionaryTextPass {
+    layout: SurfaceLayout;
+    tokens: PhraseToken[];
+    senses: ReverseSense[][];   // English headwords per token
+    from: string;
+}
+
 export interface TranslationResult {
     original: string;
     translated: string;
     source: 'dictionary' | 'cache' | 'api';
     etymology?: EtymologyData;
     confidence: number;
+    pivot?: string; // English headword, for non-English sources
+    alternatives?: string[]; // Translations via other headwords (ambiguous source word)
+    lemma?: string; // Dictionary form of an English source word
+    inflection?: Inflection; // How the source word differs from its lemma
+    reinflected?: boolean; // Whether `translated` carries the inflection (false: lemma translation)
 }
 
 // =============================================================================
@@ -1246,49 +1281,199 @@ const CORE_DICTIONARY: Record<string, DictionaryEntry> = {
 // DICTIONARY LOOKUP FUNCTIONS
 // =============================================================================
 
+// Confidence in a lemma's translation used for an inflected word
+const REINFLECTED_CONFIDENCE = 0.9;
+const UNINFLECTED_CONFIDENCE = 0.7;
+
 /**
- * Look up a word in the core dictionary
+ * Lemma and inflection of an English word, if the core dictionary knows it
+ * (punctuation stripped: "Children," -> child, plural)
+ */
+export function analyseEnglishWord(word: string): WordAnalysis | null {
+    return analyseWord(word, (lemma) => CORE_DICTIONARY[lemma] || null);
+}
+
+/**
+ * Look up a word in the core dictionary, by its lemma if inflected
  */
 export function lookupWord(word: string): DictionaryEntry | null {
     const normalized = word.toLowerCase().trim();
-    return CORE_DICTIONARY[normalized] || null;
+    if (CORE_DICTIONARY[normalized]) {
+        return CORE_DICTIONARY[normalized];
+    }
+
+    const analysis = analyseEnglishWord(normalized);
+    return analysis ? CORE_DICTIONARY[analysis.lemma] : null;
 }
 
+// Reverse index over the core and compact dictionaries, built on first use
+let staticReverseIndex: ReverseIndex | null = null;
+
 /**
- * Translate a single word using the dictionary
+ * The reverse index of the embedded dictionaries (core entries take
+ * precedence over compact ones)
  */
-export function translateWord(word: string, targetLang: string): TranslationResult | null {
-    const entry = lookupWord(word);
+export function getReverseIndex(): ReverseIndex {
+    if (!staticReverseIndex) {
+        const index = createReverseIndex();
+        for (const [word, entry] of Object.entries(CORE_DICTIONARY)) {
+            indexEntry(index, word, entry.translations, { frequency: entry.frequency, origin: 'core' });
+        }
+        for (const word of getAllWords()) {
+            const entry = lookupCompact(word);
+            if (entry) {
+                indexEntry(index, word, Object.fromEntries(entry.translations), { frequency: entry.frequency, origin: 'compact' });
+            }
+        }
+        staticReverseIndex = index;
+    }
+    return staticReverseIndex;
+}
 
-    if (!entry || !entry.translations[targetLang]) {
-        return null;
+// Phrase tries per source language, built on first use
+const phraseTries = new Map<string, PhraseTrie>();
+
+/**
+ * Multi-word terms of an index (single words need no trie)
+ */
+function indexPhrases(trie: PhraseTrie, index: ReverseIndex, language: string): void {
+    for (const term of index.get(language)?.keys() ?? []) {
+        if (term.includes(' ')) {
+            addPhrase(trie, term);
+        }
     }
+}
 
+/**
+ * Phrase trie for a source language: English headwords and variants, or the
+ * reverse index terms of another language
+ */
+export function getPhraseTrie(sourceLang: string = 'en'): PhraseTrie {
+    const language = sourceLang === 'auto' ? 'en' : sourceLang;
+    let trie = phraseTries.get(language);
+    if (!trie) {
+        trie = createPhraseTrie();
+        if (language === 'en') {
+            for (const [word, entry] of Object.entries(CORE_DICTIONARY)) {
+                if (word.includes(' ')) {
+                    addPhrase(trie, word);
+                }
+                for (const variant of entry.variants ?? []) {
+                    addPhrase(trie, variant, word);
+                }
+            }
+        } else {
+            indexPhrases(trie, getReverseIndex(), language);
+        }
+        phraseTries.set(language, trie);
+    }
+    return trie;
+}
+
+/**
+ * Group words into dictionary phrases, longest match first. `extra` indexes
+ * (e.g. from D1) contribute their phrases for non-English sources.
+ */
+export function tokenizePhrases(words: string[], sourceLang: string = 'en', extra: ReverseIndex[] = []): PhraseToken[] {
+    const tries = [getPhraseTrie(sourceLang)];
+    if (sourceLang !== 'en' && sourceLang !== 'auto') {
+        for (const index of extra) {
+            const trie = createPhraseTrie();
+            indexPhrases(trie, index, sourceLang);
+            tries.push(trie);
+        }
+    }
+    return matchPhrases(words, tries);
+}
+
+/**
+ * English headwords a source word stands for: its own entry for English,
+ * reverse index matches for other languages
+ */
+export function wordSenses(word: string, sourceLang: string = 'en', extra: ReverseIndex[] = []): ReverseSense[] {
+    if (sourceLang === 'en' || sourceLang === 'auto') {
+        const normalized = word.toLowerCase().trim();
+        const headword = CORE_DICTIONARY[normalized] ? normalized : analyseEnglishWord(normalized)?.lemma;
+        const entry = headword ? CORE_DICTIONARY[headword] : null;
+        return entry && headword
+            ? [{ headword, translations: entry.translations, frequency: entry.frequency, origin: 'core' }]
+            : [];
+    }
+    return lookupSenses([getReverseIndex(), ...extra], word, sourceLang);
+}
+
+/**
+ * Translate a word through the senses found for it (see wordSenses)
+ */
+export function translateSenses(
+    word: string,
+    senses: ReverseSense[],
+    sourceLang: string,
+    targetLang: string
+): TranslationResult | null {
+    if (sourceLang === 'en' || sourceLang === 'auto') {
+        const translated = senses[0]?.translations[targetLang];
+        if (!translated) {
+            return null;
+        }
+
+        // Inflected forms get the lemma's translation, re-inflected where possible
+        const analysis = analyseEnglishWord(word);
+        const inflection = analysis?.lemma === senses[0].headword ? analysis.inflection ?? undefined : undefined;
+        const reinflected = inflection ? reinflect(translated, inflection, targetLang, analysis?.irregular) : null;
+
+        return {
+            original: word,
+            translated: reinflected ?? translated,
+            source: 'dictionary',
+            etymology: CORE_DICTIONARY[senses[0].headword]?.etymology,
+            // Dictionary translations are 100% confident; inflected forms less so
+            confidence: !inflection ? 1.0 : reinflected ? REINFLECTED_CONFIDENCE : UNINFLECTED_CONFIDENCE,
+            lemma: senses[0].headword,
+            inflection,
+            reinflected: inflection ? reinflected !== null : undefined,
+        };
+    }
+
+    const resolved = resolveSenses(senses, targetLang);
+    if (!resolved) {
+        return null;
+    }
     return {
         original: word,
-        translated: entry.translations[targetLang],
+        translated: resolved.translated,
         source: 'dictionary',
-        etymology: entry.etymology,
-        confidence: 1.0, // Dictionary translations are 100% confident
+        confidence: resolved.confidence,
+        pivot: resolved.headword,
+        alternatives: resolved.ambiguous ? resolved.alternatives : undefined,
     };
 }
 
 /**
- * Translate multiple words, returning which ones were found
+ * Translate a single word using the dictionary
+ */
+export function translateWord(word: string, targetLang: string, sourceLang: string = 'en'): TranslationResult | null {
+    return translateSenses(word, wordSenses(word, sourceLang), sourceLang, targetLang);
+}
+
+/**
+ * Translate multiple words, returning which ones were found. Dictionary
+ * phrases ("thank you") are translated as one item.
  */
 export function translateWords(
     words: string[],
-    targetLang: string
+    targetLang: string,
+    sourceLang: string = 'en'
 ): { translated: TranslationResult[]; notFound: string[] } {
     const translated: TranslationResult[] = [];
     const notFound: string[] = [];
 
-    for (const word of words) {
-        const result = translateWord(word, targetLang);
+    for (const token of tokenizePhrases(words, sourceLang)) {
+        const result = translateWord(token.key, targetLang, sourceLang);
         if (result) {
-            translated.push(result);
+            translated.push({ ...result, original: token.text });
         } else {
-            notFound.push(word);
+            notFound.push(token.text);
         }
     }
 
@@ -1296,16 +1481,78 @@ export function translateWords(
 }
 
 /**
- * Check if a language pair is supported for dictionary lookup
+ * Split a text into dictionary tokens and look them up. `extra` indexes
+ * (e.g. from D1) are consulted for non-English sources.
+ */
+export function prepareDictionaryText(text: string, sourceLang: string = 'en', extra: ReverseIndex[] = []): DictionaryTextPass {
+    const layout = splitSurface(text);
+    const tokens = tokenizePhrases(layout.words.map(word => word.text), sourceLang, extra);
+    return {
+        layout,
+        tokens,
+        senses: tokens.map(token => token.key ? wordSenses(token.key, sourceLang, extra) : []),
+        from: sourceLang,
+    };
+}
+
+/**
+ * Translate a prepared text. `text` keeps the source's case, punctuation and
+ * spacing; it is null when some tokens were not found, unless `partial` is
+ * set, in which case those keep their source form. Tokens without letters or
+ * digits pass through untranslated.
+ *
+ * An inflected word whose lemma translation could not be re-inflected ("was"
+ * -> "être") counts as not found for `text`: it stays in `translated`,
+ * flagged `reinflected: false`, but never reaches the output.
+ */
+export function translateDictionaryText(
+    pass: DictionaryTextPass,
+    targetLang: string,
+    options: { partial?: boolean } = {}
+): { text: string | null; translated: TranslationResult[]; notFound: string[] } {
+    const translated: TranslationResult[] = [];
+    const notFound: string[] = [];
+    const spans: TranslatedSpan[] = [];
+
+    pass.tokens.forEach((token, i) => {
+        const span = { start: token.start, words: token.words };
+        if (!token.key) {
+            spans.push({ ...span, translated: null });
+            return;
+        }
+
+        const result = translateSenses(token.text, pass.senses[i], pass.from, targetLang);
+        if (result) {
+            translated.push(result);
+        }
+        if (result && result.reinflected !== false) {
+            spans.push({ ...span, translated: result.translated });
+        } else {
+            notFound.push(token.text);
+            spans.push({ ...span, translated: null });
+        }
+    });
+
+    const complete = notFound.length === 0 || options.partial;
+    return {
+        text: complete ? renderTranslation(pass.layout, spans, targetLang) : null,
+        translated,
+        notFound,
+    };
+}
+
+/**
+ * Check if a language pair is supported for dictionary lookup. Any
+ * dictionary language can be the source; non-English pairs pivot via English.
  */
 export function isLanguagePairSupported(sourceLang: string, targetLang: string): boolean {
-    // All words in the dictionary have translations from English
-    if (sourceLang === 'en' || sourceLang === 'auto') {
-        // Check if target language exists in any entry
-        const sampleEntry = CORE_DICTIONARY['hello'];
-        return sampleEntry?.translations[targetLang] !== undefined;
+    const languages = getSupportedLanguages();
+    const source = sourceLang === 'auto' ? 'en' : sourceLang;
+
+    if (source === targetLang) {
+        return false;
     }
-    return false;
+    return (source === 'en' || languages.includes(source)) && (targetLang === 'en' || languages.includes(targetLang));
 }
 
 /**
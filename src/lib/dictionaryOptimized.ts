@@ -19,6 +19,8 @@
  * =============================================================================
  */
 
+import { addPhrase, createPhraseTrie, matchPhrases, type PhraseTrie } from './phraseTrie';
+
 // =============================================================================
 // TYPE DEFINITIONS
 // =============================================================================
@@ -347,8 +349,24 @@ export function getTranslation(word: string, targetLang: string): string | null
     return entry?.translations.get(targetLang) || null;
 }
 
+// Multi-word headwords ("thank you"), built on first use
+let phraseTrie: PhraseTrie | null = null;
+
+function getCompactPhraseTrie(): PhraseTrie {
+    if (!phraseTrie) {
+        phraseTrie = createPhraseTrie();
+        for (const word of COMPACT_DICT.keys()) {
+            if (word.includes(' ')) {
+                addPhrase(phraseTrie, word);
+            }
+        }
+    }
+    return phraseTrie;
+}
+
 /**
- * Batch translation - much faster than individual lookups
+ * Batch translation - much faster than individual lookups. Phrases are
+ * matched before single words and keyed by their space-joined words.
  */
 export function batchTranslate(
     words: string[],
@@ -357,12 +375,12 @@ export function batchTranslate(
     const found = new Map<string, string>();
     const notFound: string[] = [];
 
-    for (const word of words) {
-        const translation = getTranslation(word, targetLang);
+    for (const token of matchPhrases(words, [getCompactPhraseTrie()])) {
+        const translation = getTranslation(token.key, targetLang);
         if (translation) {
-            found.set(word, translation);
+            found.set(token.text, translation);
         } else {
-            notFound.push(word);
+            notFound.push(token.text);
         }
     }
 
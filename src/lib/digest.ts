@@ -0,0 +1,29 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Digests
+ * =============================================================================
+ * SHA-256 (WebCrypto) and a canonical JSON serialisation, so the same inputs
+ * always produce the same digest regardless of property order.
+ * =============================================================================
+ */
+
+export async function sha256Hex(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * JSON with object keys sorted and undefined properties dropped
+ */
+export function canonicalJSON(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => canonicalJSON(item === undefined ? null : item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJSON(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,111 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Translation Feedback
+ * =============================================================================
+ * Audit trail for human post-edits sent to POST /translate/feedback. Each
+ * record keeps the source, the machine output, the reviewer's correction and
+ * the word pairs that were learned from it (`translation_feedback` in D1).
+ * =============================================================================
+ */
+
+import type { D1Database } from './d1-dictionary';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface CorrectedWordPair {
+    word: string;
+    translation: string;
+}
+
+export interface FeedbackRecord {
+    id: number;
+    sourceLanguage: string;
+    targetLanguage: string;
+    original: string;
+    machine: string;
+    corrected: string;
+    reviewer: string;           // Principal id (API key id or root)
+    glossaryId: number | null;
+    wordPairs: CorrectedWordPair[];
+    createdAt: string;
+}
+
+export type FeedbackInput = Omit<FeedbackRecord, 'id' | 'createdAt'>;
+
+interface D1FeedbackRow {
+    id: number;
+    source_language: string;
+    target_language: string;
+    original_text: string;
+    machine_text: string;
+    corrected_text: string;
+    reviewer: string;
+    glossary_id: number | null;
+    word_pairs_json: string | null;
+    created_at: string;
+}
+
+// =============================================================================
+// AUDIT TRAIL
+// =============================================================================
+
+/**
+ * Record a correction, returning its audit id
+ */
+export async function recordFeedback(db: D1Database, input: FeedbackInput): Promise<number> {
+    const row = await db
+        .prepare(
+            `INSERT INTO translation_feedback
+         (source_language, target_language, original_text, machine_text, corrected_text, reviewer, glossary_id, word_pairs_json)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       RETURNING id`
+        )
+        .bind(
+            input.sourceLanguage,
+            input.targetLanguage,
+            input.original,
+            input.machine,
+            input.corrected,
+            input.reviewer,
+            input.glossaryId,
+            JSON.stringify(input.wordPairs)
+        )
+        .first<{ id: number }>();
+
+    if (!row) {
+        throw new Error('Failed to record feedback');
+    }
+
+    return row.id;
+}
+
+/**
+ * List corrections, newest first
+ */
+export async function listFeedback(
+    db: D1Database,
+    options: { reviewer?: string; limit?: number; offset?: number } = {}
+): Promise<FeedbackRecord[]> {
+    const where = options.reviewer ? 'WHERE reviewer = ?' : '';
+    const params: unknown[] = options.reviewer ? [options.reviewer] : [];
+
+    const results = await db
+        .prepare(`SELECT * FROM translation_feedback ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+        .bind(...params, options.limit ?? 50, options.offset ?? 0)
+        .all<D1FeedbackRow>();
+
+    return (results.results || []).map(row => ({
+        id: row.id,
+        sourceLanguage: row.source_language,
+        targetLanguage: row.target_language,
+        original: row.original_text,
+        machine: row.machine_text,
+        corrected: row.corrected_text,
+        reviewer: row.reviewer,
+        glossaryId: row.glossary_id,
+        wordPairs: row.word_pairs_json ? JSON.parse(row.word_pairs_json) : [],
+        createdAt: row.created_at,
+    }));
+}
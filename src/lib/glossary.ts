@@ -0,0 +1,474 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Customer Glossaries
+ * =============================================================================
+ * Named glossaries of product names and domain terms, stored in D1 next to
+ * `dictionary_entries`, and enforced during translation.
+ *
+ * Enforcement:
+ * 1. Glossary terms in the source are masked with placeholder tokens
+ * 2. The masked text is machine translated
+ * 3. Tokens are replaced with the glossary's target terms
+ * 4. If tokens were lost, an LLM post-edit pass inserts the missing terms
+ * =============================================================================
+ */
+
+import type { D1Database } from './d1-dictionary';
+import { maskSpans, unmaskText, type MaskSpan } from './masking';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface Glossary {
+    id: number;
+    name: string;
+    description: string | null;
+    sourceLanguage: string;
+    createdBy: string | null;   // Principal that created it (null: before ownership was recorded)
+    createdAt: string;
+    updatedAt: string;
+    version: number;            // Bumped on every edit (cache keys include it)
+    terms?: GlossaryTerm[];
+}
+
+export interface GlossaryTerm {
+    id: number;
+    glossaryId: number;
+    source: string;
+    translations: Record<string, string>;
+    caseSensitive: boolean;
+    pos?: string;
+}
+
+export interface GlossaryTermInput {
+    source: string;
+    translations: Record<string, string>;
+    caseSensitive?: boolean;
+    pos?: string;
+}
+
+/** A glossary term that must appear in a particular translation */
+export interface GlossaryRequirement {
+    source: string;
+    target: string;
+    caseSensitive: boolean;
+}
+
+export interface GlossaryTranslation {
+    translated: string;
+    /** Terms found in the source text */
+    applied: GlossaryRequirement[];
+    /** Terms whose target form is still absent from the output */
+    missing: GlossaryRequirement[];
+    method: 'none' | 'placeholder' | 'post-edit';
+}
+
+interface D1GlossaryRow {
+    id: number;
+    name: string;
+    description: string | null;
+    source_language: string;
+    created_by: string | null;
+    created_at: string;
+    updated_at: string;
+    version: number | null;
+}
+
+interface D1GlossaryTermRow {
+    id: number;
+    glossary_id: number;
+    source_term: string;
+    translations_json: string;
+    case_sensitive: number | boolean;
+    pos: string | null;
+}
+
+// =============================================================================
+// GLOSSARY CRUD
+// =============================================================================
+
+/**
+ * List all glossaries (without terms)
+ */
+export async function listGlossaries(db: D1Database): Promise<Glossary[]> {
+    const results = await db
+        .prepare('SELECT * FROM glossaries ORDER BY name ASC')
+        .all<D1GlossaryRow>();
+
+    return (results.results || []).map(rowToGlossary);
+}
+
+/**
+ * Get a glossary with all of its terms
+ */
+export async function getGlossary(db: D1Database, id: number): Promise<Glossary | null> {
+    const row = await db
+        .prepare('SELECT * FROM glossaries WHERE id = ?')
+        .bind(id)
+        .first<D1GlossaryRow>();
+
+    if (!row) {
+        return null;
+    }
+
+    return { ...rowToGlossary(row), terms: await getGlossaryTerms(db, id) };
+}
+
+/**
+ * Create a glossary, optionally with an initial set of terms
+ */
+export async function createGlossary(
+    db: D1Database,
+    input: { name: string; description?: string; sourceLanguage?: string; terms?: GlossaryTermInput[]; createdBy?: string }
+): Promise<Glossary> {
+    const row = await db
+        .prepare(
+            `INSERT INTO glossaries (name, description, source_language, created_by)
+       VALUES (?, ?, ?, ?)
+       RETURNING *`
+        )
+        .bind(input.name.trim(), input.description || null, input.sourceLanguage || 'en', input.createdBy || null)
+        .first<D1GlossaryRow>();
+
+    if (!row) {
+        throw new Error('Failed to create glossary');
+    }
+
+    if (input.terms && input.terms.length > 0) {
+        await upsertGlossaryTerms(db, row.id, input.terms);
+    }
+
+    return (await getGlossary(db, row.id))!;
+}
+
+/**
+ * Update a glossary's name/description
+ */
+export async function updateGlossary(
+    db: D1Database,
+    id: number,
+    updates: { name?: string; description?: string; sourceLanguage?: string }
+): Promise<Glossary | null> {
+    const existing = await getGlossary(db, id);
+    if (!existing) {
+        return null;
+    }
+
+    await db
+        .prepare(
+            `UPDATE glossaries
+       SET name = ?, description = ?, source_language = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`
+        )
+        .bind(
+            updates.name?.trim() ?? existing.name,
+            updates.description ?? existing.description,
+            updates.sourceLanguage ?? existing.sourceLanguage,
+            id
+        )
+        .run();
+
+    return getGlossary(db, id);
+}
+
+/**
+ * Delete a glossary and its terms
+ */
+export async function deleteGlossary(db: D1Database, id: number): Promise<boolean> {
+    const existing = await db
+        .prepare('SELECT id FROM glossaries WHERE id = ?')
+        .bind(id)
+        .first<{ id: number }>();
+
+    if (!existing) {
+        return false;
+    }
+
+    await db.prepare('DELETE FROM glossary_terms WHERE glossary_id = ?').bind(id).run();
+    await db.prepare('DELETE FROM glossaries WHERE id = ?').bind(id).run();
+    return true;
+}
+
+// =============================================================================
+// GLOSSARY TERMS
+// =============================================================================
+
+/**
+ * Get all terms of a glossary
+ */
+export async function getGlossaryTerms(db: D1Database, glossaryId: number): Promise<GlossaryTerm[]> {
+    const results = await db
+        .prepare('SELECT * FROM glossary_terms WHERE glossary_id = ? ORDER BY source_term ASC')
+        .bind(glossaryId)
+        .all<D1GlossaryTermRow>();
+
+    return (results.results || []).map(rowToTerm);
+}
+
+/**
+ * Add or replace terms (keyed by source term)
+ */
+export async function upsertGlossaryTerms(
+    db: D1Database,
+    glossaryId: number,
+    terms: GlossaryTermInput[]
+): Promise<number> {
+    let count = 0;
+
+    for (const term of terms) {
+        if (!term.source?.trim() || !term.translations || typeof term.translations !== 'object') {
+            continue;
+        }
+
+        await db
+            .prepare(
+                `INSERT INTO glossary_terms (glossary_id, source_term, translations_json, case_sensitive, pos)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(glossary_id, source_term) DO UPDATE SET
+           translations_json = excluded.translations_json,
+           case_sensitive = excluded.case_sensitive,
+           pos = excluded.pos,
+           updated_at = CURRENT_TIMESTAMP`
+            )
+            .bind(
+                glossaryId,
+                term.source.trim(),
+                JSON.stringify(term.translations),
+                term.caseSensitive ? 1 : 0,
+                term.pos || null
+            )
+            .run();
+        count++;
+    }
+
+    await touchGlossary(db, glossaryId);
+    return count;
+}
+
+/**
+ * Update a single term
+ */
+export async function updateGlossaryTerm(
+    db: D1Database,
+    glossaryId: number,
+    termId: number,
+    updates: Partial<GlossaryTermInput>
+): Promise<GlossaryTerm | null> {
+    const row = await db
+        .prepare('SELECT * FROM glossary_terms WHERE id = ? AND glossary_id = ?')
+        .bind(termId, glossaryId)
+        .first<D1GlossaryTermRow>();
+
+    if (!row) {
+        return null;
+    }
+
+    const existing = rowToTerm(row);
+    const updated: GlossaryTerm = {
+        ...existing,
+        source: updates.source?.trim() || existing.source,
+        translations: updates.translations ?? existing.translations,
+        caseSensitive: updates.caseSensitive ?? existing.caseSensitive,
+        pos: updates.pos ?? existing.pos,
+    };
+
+    await db
+        .prepare(
+            `UPDATE glossary_terms
+       SET source_term = ?, translations_json = ?, case_sensitive = ?, pos = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`
+        )
+        .bind(
+            updated.source,
+            JSON.stringify(updated.translations),
+            updated.caseSensitive ? 1 : 0,
+            updated.pos || null,
+            termId
+        )
+        .run();
+
+    await touchGlossary(db, glossaryId);
+    return updated;
+}
+
+/**
+ * Delete a single term
+ */
+export async function deleteGlossaryTerm(
+    db: D1Database,
+    glossaryId: number,
+    termId: number
+): Promise<boolean> {
+    const existing = await db
+        .prepare('SELECT id FROM glossary_terms WHERE id = ? AND glossary_id = ?')
+        .bind(termId, glossaryId)
+        .first<{ id: number }>();
+
+    if (!existing) {
+        return false;
+    }
+
+    await db.prepare('DELETE FROM glossary_terms WHERE id = ?').bind(termId).run();
+    await touchGlossary(db, glossaryId);
+    return true;
+}
+
+/**
+ * Bump a glossary's version and updated_at; cache keys include the version,
+ * so any term change invalidates translations made with the old terms
+ */
+async function touchGlossary(db: D1Database, glossaryId: number): Promise<void> {
+    await db
+        .prepare('UPDATE glossaries SET version = version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+        .bind(glossaryId)
+        .run();
+}
+
+// =============================================================================
+// ENFORCEMENT
+// =============================================================================
+
+/**
+ * Find glossary terms in a source text. Longer terms win over shorter ones
+ * they contain ("Lingua Pro" over "Lingua"). Only terms with a translation
+ * for the target language are returned.
+ */
+export function findGlossaryMatches(
+    text: string,
+    terms: GlossaryTerm[],
+    targetLang: string
+): Array<MaskSpan & { requirement: GlossaryRequirement }> {
+    const candidates = terms
+        .filter(term => term.translations[targetLang])
+        .sort((a, b) => b.source.length - a.source.length);
+
+    const matches: Array<MaskSpan & { requirement: GlossaryRequirement }> = [];
+    const taken: Array<[number, number]> = [];
+
+    for (const term of candidates) {
+        const pattern = new RegExp(
+            `(?<![\\p{L}\\p{N}])${escapeRegExp(term.source)}(?![\\p{L}\\p{N}])`,
+            term.caseSensitive ? 'gu' : 'giu'
+        );
+
+        for (const match of text.matchAll(pattern)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+            if (taken.some(([s, e]) => start < e && end > s)) continue;
+
+            taken.push([start, end]);
+            matches.push({
+                start,
+                end,
+                replacement: term.translations[targetLang],
+                kind: 'glossary',
+                requirement: {
+                    source: term.source,
+                    target: term.translations[targetLang],
+                    caseSensitive: term.caseSensitive,
+                },
+            });
+        }
+    }
+
+    return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Translate text so that every glossary term in it gets its glossary translation
+ */
+export async function translateWithGlossary(
+    text: string,
+    terms: GlossaryTerm[],
+    targetLang: string,
+    translate: (text: string) => Promise<string>,
+    postEdit?: (source: string, translation: string, required: GlossaryRequirement[]) => Promise<string | null>,
+    placeholderOffset: number = 0
+): Promise<GlossaryTranslation> {
+    const matches = findGlossaryMatches(text, terms, targetLang);
+
+    if (matches.length === 0) {
+        return { translated: await translate(text), applied: [], missing: [], method: 'none' };
+    }
+
+    const applied = uniqueRequirements(matches.map(m => m.requirement));
+
+    // 1. Placeholder masking
+    const masked = maskSpans(text, matches, placeholderOffset);
+    const restored = unmaskText(await translate(masked.text), masked.placeholders);
+
+    let translated = restored.text;
+    let method: GlossaryTranslation['method'] = 'placeholder';
+    let missing = applied.filter(r => !containsTerm(translated, r));
+
+    // 2. LLM post-edit when the model dropped or duplicated placeholders
+    if ((missing.length > 0 || restored.duplicated.length > 0) && postEdit) {
+        const edited = await postEdit(text, translated, applied);
+        if (edited) {
+            translated = edited;
+            method = 'post-edit';
+            missing = applied.filter(r => !containsTerm(translated, r));
+        }
+    }
+
+    return { translated, applied, missing, method };
+}
+
+/**
+ * Check whether a translation contains a required target term
+ */
+export function containsTerm(text: string, requirement: GlossaryRequirement): boolean {
+    return requirement.caseSensitive
+        ? text.includes(requirement.target)
+        : text.toLowerCase().includes(requirement.target.toLowerCase());
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function uniqueRequirements(requirements: GlossaryRequirement[]): GlossaryRequirement[] {
+    const seen = new Set<string>();
+    return requirements.filter(r => {
+        const key = `${r.source}\u0000${r.target}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function rowToGlossary(row: D1GlossaryRow): Glossary {
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        sourceLanguage: row.source_language,
+        createdBy: row.created_by ?? null,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        version: row.version ?? 0,
+    };
+}
+
+function rowToTerm(row: D1GlossaryTermRow): GlossaryTerm {
+    let translations: Record<string, string> = {};
+    try {
+        translations = JSON.parse(row.translations_json);
+    } catch {
+        translations = {};
+    }
+
+    return {
+        id: row.id,
+        glossaryId: row.glossary_id,
+        source: row.source_term,
+        translations,
+        caseSensitive: !!row.case_sensitive,
+        pos: row.pos || undefined,
+    };
+}
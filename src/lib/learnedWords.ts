@@ -125,20 +125,31 @@ export async function storeLearnedWord(
     const now = new Date().toISOString();
 
     if (existing) {
+        // Human corrections override earlier AI guesses instead of averaging with them
+        const corrected = options.source === 'user';
+
         // Update existing word with new translations and increment count
         const updated: LearnedWord = {
             ...existing,
             translations: { ...existing.translations, ...translations },
             seenCount: existing.seenCount + 1,
             lastSeen: now,
-            confidence: Math.min((existing.confidence + (options.confidence || 0.7)) / 2, 1),
+            confidence: corrected
+                ? Math.max(existing.confidence, options.confidence || 0.7)
+                : Math.min((existing.confidence + (options.confidence || 0.7)) / 2, 1),
             contexts: options.context
                 ? [...(existing.contexts || []).slice(-4), options.context]
                 : existing.contexts,
+            source: corrected ? 'user' : existing.source,
         };
 
         await kv.put(key, JSON.stringify(updated));
 
+        // Re-queue corrected words so the fix reaches the dictionary
+        if (corrected) {
+            await addToPendingQueue(kv, normalizedWord);
+        }
+
         // Get current stats
         const stats = await getStats(kv);
         return { stored: true, shouldTriggerPR: false, pendingCount: stats.pendingCount };
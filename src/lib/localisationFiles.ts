@@ -0,0 +1,751 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Localisation Files
+ * =============================================================================
+ * Reads translatable units out of app localisation files and writes
+ * translations back in the same format, leaving keys, comments, metadata and
+ * layout untouched.
+ *
+ * Supported formats:
+ * - json     i18next JSON (nested keys, `_one`/`_other` plural suffixes)
+ * - arb      Flutter ARB (ICU plural/select messages, `@key` metadata)
+ * - po       gettext PO/POT (msgctxt, msgid_plural, extracted comments)
+ * - xliff    XLIFF 1.2 and 2.0
+ * - strings  iOS/macOS `.strings`
+ * - android  Android `strings.xml` (string, string-array, plurals)
+ *
+ * Every format is handled by a walker that visits each unit and optionally
+ * replaces its text: extraction and writing share the same traversal, so unit
+ * ids always line up.
+ * =============================================================================
+ */
+
+import type { ProtectionOptions } from './placeholders';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type LocalisationFormat = 'json' | 'arb' | 'po' | 'xliff' | 'strings' | 'android';
+
+export interface LocalisationUnit {
+    id: string;
+    source: string;
+    context?: string;   // Disambiguation the file declares (PO msgctxt)
+    note?: string;      // Translator comment found next to the unit
+}
+
+/** Returns the translation for a unit, or undefined to leave it as it is */
+type UnitVisitor = (unit: LocalisationUnit) => string | undefined;
+
+export const LOCALISATION_FORMATS: LocalisationFormat[] = ['json', 'arb', 'po', 'xliff', 'strings', 'android'];
+
+// Plural categories in CLDR order
+const PLURAL_ORDER = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+// gettext Plural-Forms headers for common target languages
+const PO_PLURAL_FORMS: Record<string, string> = {
+    en: 'nplurals=2; plural=(n != 1);',
+    de: 'nplurals=2; plural=(n != 1);',
+    es: 'nplurals=2; plural=(n != 1);',
+    it: 'nplurals=2; plural=(n != 1);',
+    nl: 'nplurals=2; plural=(n != 1);',
+    sv: 'nplurals=2; plural=(n != 1);',
+    pt: 'nplurals=2; plural=(n > 1);',
+    fr: 'nplurals=2; plural=(n > 1);',
+    tr: 'nplurals=2; plural=(n != 1);',
+    hi: 'nplurals=2; plural=(n != 1);',
+    ja: 'nplurals=1; plural=0;',
+    zh: 'nplurals=1; plural=0;',
+    ko: 'nplurals=1; plural=0;',
+    th: 'nplurals=1; plural=0;',
+    vi: 'nplurals=1; plural=0;',
+    id: 'nplurals=1; plural=0;',
+    ru: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    uk: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    pl: 'nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    ar: 'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);',
+    he: 'nplurals=2; plural=(n != 1);',
+};
+
+// XML entities and namespaced inline tags (<xliff:g>, <ph id="1"/>)
+const XML_PROTECTION: ProtectionOptions = {
+    custom: ['&#?[a-zA-Z0-9]+;', '<\\/?[A-Za-z][^<>]*>'],
+};
+
+// Extra do-not-translate patterns each format needs beyond the defaults
+const FORMAT_PROTECTION: Partial<Record<LocalisationFormat, ProtectionOptions>> = {
+    json: { custom: ['\\$t\\([^)]*\\)'] },    // i18next nesting
+    xliff: XML_PROTECTION,
+    android: XML_PROTECTION,
+};
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * List the units of a file that need translating into `targetLanguage`.
+ * Bilingual formats (PO, XLIFF) skip units that already have a translation.
+ */
+export function extractUnits(content: string, format: LocalisationFormat, targetLanguage: string): LocalisationUnit[] {
+    const units: LocalisationUnit[] = [];
+    walkFile(content, format, targetLanguage, unit => {
+        units.push(unit);
+        return undefined;
+    });
+    return units;
+}
+
+/**
+ * Write translations (keyed by unit id) into the file for `targetLanguage`
+ */
+export function writeTranslations(
+    content: string,
+    format: LocalisationFormat,
+    targetLanguage: string,
+    translations: Map<string, string>
+): string {
+    return walkFile(content, format, targetLanguage, unit => translations.get(unit.id));
+}
+
+/**
+ * Source language declared by the file itself, if any
+ */
+export function declaredSourceLanguage(content: string, format: LocalisationFormat): string | null {
+    let match: RegExpMatchArray | null = null;
+
+    if (format === 'xliff') {
+        match = content.match(/\s(?:source-language|srcLang)\s*=\s*["']([^"']+)["']/);
+    } else if (format === 'arb') {
+        match = content.match(/"@@locale"\s*:\s*"([^"]+)"/);
+    }
+
+    return match ? match[1].split(/[-_]/)[0].toLowerCase() : null;
+}
+
+/**
+ * Extra protection patterns to apply when translating units of a format
+ */
+export function protectionFor(format: LocalisationFormat): ProtectionOptions {
+    return FORMAT_PROTECTION[format] ?? {};
+}
+
+function walkFile(content: string, format: LocalisationFormat, targetLanguage: string, visit: UnitVisitor): string {
+    switch (format) {
+        case 'json':
+            return walkI18nextJson(content, targetLanguage, visit);
+        case 'arb':
+            return walkArb(content, targetLanguage, visit);
+        case 'po':
+            return walkPo(content, targetLanguage, visit);
+        case 'xliff':
+            return walkXliff(content, targetLanguage, visit);
+        case 'strings':
+            return walkAppleStrings(content, visit);
+        case 'android':
+            return walkAndroidXml(content, targetLanguage, visit);
+        default:
+            throw new Error(`Unsupported format: ${format}`);
+    }
+}
+
+// =============================================================================
+// PLURALS
+// =============================================================================
+
+/**
+ * CLDR plural categories used by a language ("one", "few", "other"...)
+ */
+export function pluralCategories(language: string): string[] {
+    try {
+        const categories = new Intl.PluralRules(language).resolvedOptions().pluralCategories as string[];
+        return PLURAL_ORDER.filter(c => categories.includes(c));
+    } catch {
+        return ['one', 'other'];
+    }
+}
+
+/**
+ * Pick the source form to translate for a target plural category
+ */
+function pluralSource<T>(forms: Record<string, T>, category: string): T | undefined {
+    return forms[category] ?? forms.other ?? forms.many ?? forms.one;
+}
+
+// =============================================================================
+// JSON (i18next) & ARB
+// =============================================================================
+
+function parseJsonFile(content: string): any {
+    try {
+        return JSON.parse(content);
+    } catch (err: any) {
+        throw new Error(`Invalid JSON: ${err.message}`);
+    }
+}
+
+/**
+ * Serialise with the indentation (and trailing newline) of the original
+ */
+function stringifyLike(original: string, value: any): string {
+    const indent = original.match(/\n([ \t]+)"/)?.[1] ?? '  ';
+    return JSON.stringify(value, null, indent) + (original.endsWith('\n') ? '\n' : '');
+}
+
+function walkI18nextJson(content: string, targetLanguage: string, visit: UnitVisitor): string {
+    const categories = pluralCategories(targetLanguage);
+
+    const walk = (node: any, path: string[]): any => {
+        if (typeof node === 'string') {
+            return /[\p{L}]/u.test(node) ? visit({ id: path.join('.'), source: node }) ?? node : node;
+        }
+        if (Array.isArray(node)) {
+            return node.map((item, i) => walk(item, [...path, String(i)]));
+        }
+        if (!node || typeof node !== 'object') {
+            return node;
+        }
+
+        // Group plural keys (key_one, key_other...) so the target gets its own set
+        const plurals = new Map<string, Record<string, string>>();
+        for (const [key, value] of Object.entries(node)) {
+            const match = key.match(/^(.+)_(zero|one|two|few|many|other)$/);
+            if (match && typeof value === 'string') {
+                const forms = plurals.get(match[1]) || {};
+                forms[match[2]] = value;
+                plurals.set(match[1], forms);
+            }
+        }
+
+        const result: Record<string, any> = {};
+        for (const [key, value] of Object.entries(node)) {
+            const match = key.match(/^(.+)_(zero|one|two|few|many|other)$/);
+            const forms = match && typeof value === 'string' ? plurals.get(match[1]) : undefined;
+
+            if (!forms || !(forms.other ?? forms.one)) {
+                result[key] = walk(value, [...path, key]);
+                continue;
+            }
+            if (`${match![1]}_${PLURAL_ORDER.find(c => c in forms)}` !== key) {
+                continue; // group already written at its first key
+            }
+
+            for (const category of categories) {
+                const source = pluralSource(forms, category)!;
+                const id = [...path, `${match![1]}_${category}`].join('.');
+                result[`${match![1]}_${category}`] = visit({ id, source }) ?? source;
+            }
+        }
+        return result;
+    };
+
+    return stringifyLike(content, walk(parseJsonFile(content), []));
+}
+
+function walkArb(content: string, targetLanguage: string, visit: UnitVisitor): string {
+    const data = parseJsonFile(content);
+    const result: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries<any>(data)) {
+        if (key === '@@locale') {
+            result[key] = targetLanguage;
+        } else if (key.startsWith('@') || typeof value !== 'string') {
+            result[key] = value; // metadata (description, placeholders) is kept as-is
+        } else {
+            const note = typeof data[`@${key}`]?.description === 'string' ? data[`@${key}`].description : undefined;
+            result[key] = mapIcuMessage(value, targetLanguage, (text, path) =>
+                visit({ id: `${key}${path}`, source: text, note })
+            );
+        }
+    }
+
+    return stringifyLike(content, result);
+}
+
+/**
+ * Translate the literal text of an ICU message. Plural/select cases are
+ * translated one by one; plural cases follow the target language's categories.
+ */
+function mapIcuMessage(
+    message: string,
+    targetLanguage: string,
+    translate: (text: string, path: string) => string | undefined,
+    path: string = ''
+): string {
+    let output = '';
+    let text = '';
+    let chunk = 0;
+
+    const flushText = () => {
+        if (/[\p{L}]/u.test(text)) {
+            const leading = text.match(/^\s*/)![0];
+            const trailing = text.slice(leading.length).match(/\s*$/)![0];
+            const inner = text.slice(leading.length, text.length - trailing.length);
+            output += leading + (translate(inner, `${path}#${chunk}`) ?? inner) + trailing;
+        } else {
+            output += text;
+        }
+        chunk++;
+        text = '';
+    };
+
+    let i = 0;
+    while (i < message.length) {
+        if (message[i] !== '{') {
+            text += message[i++];
+            continue;
+        }
+
+        const close = matchingBrace(message, i);
+        const inner = message.slice(i + 1, close);
+        const complex = inner.match(/^\s*([\w.]+)\s*,\s*(plural|selectordinal|select)\s*,([\s\S]*)$/);
+
+        if (!complex) {
+            text += message.slice(i, close + 1); // simple {argument} stays in the sentence
+            i = close + 1;
+            continue;
+        }
+
+        flushText();
+        const [, argument, type, body] = complex;
+        output += `{${argument}, ${type},${mapIcuCases(body, type, argument, targetLanguage, translate, path)}}`;
+        i = close + 1;
+    }
+
+    flushText();
+    return output;
+}
+
+function mapIcuCases(
+    body: string,
+    type: string,
+    argument: string,
+    targetLanguage: string,
+    translate: (text: string, path: string) => string | undefined,
+    path: string
+): string {
+    const cases: Array<{ key: string; message: string }> = [];
+    let prefix = '';
+
+    const casePattern = /\s*(offset:\s*\d+|=?[\w-]+)\s*/y;
+    let i = 0;
+    while (i < body.length) {
+        casePattern.lastIndex = i;
+        const match = casePattern.exec(body);
+        if (!match) break;
+
+        if (match[1].startsWith('offset:')) {
+            prefix = ` ${match[1]}`;
+            i = casePattern.lastIndex;
+            continue;
+        }
+
+        const open = casePattern.lastIndex;
+        if (body[open] !== '{') break;
+        const close = matchingBrace(body, open);
+        cases.push({ key: match[1], message: body.slice(open + 1, close) });
+        i = close + 1;
+    }
+
+    let selected = cases;
+    if (type === 'plural' || type === 'selectordinal') {
+        // Keep explicit =N cases, then one case per category of the target language
+        const forms = Object.fromEntries(cases.map(c => [c.key, c.message]));
+        const rules = type === 'plural' ? pluralCategories(targetLanguage) : ordinalCategories(targetLanguage);
+        selected = [
+            ...cases.filter(c => c.key.startsWith('=')),
+            ...rules.map(key => ({ key, message: pluralSource(forms, key) ?? '' })),
+        ];
+    }
+
+    return prefix + selected
+        .map(c => ` ${c.key} {${mapIcuMessage(c.message, targetLanguage, translate, `${path}/${argument}.${c.key}`)}}`)
+        .join('');
+}
+
+function ordinalCategories(language: string): string[] {
+    try {
+        const categories = new Intl.PluralRules(language, { type: 'ordinal' }).resolvedOptions().pluralCategories as string[];
+        return PLURAL_ORDER.filter(c => categories.includes(c));
+    } catch {
+        return ['other'];
+    }
+}
+
+/**
+ * Index of the brace closing the one at `open` (ICU apostrophe quoting aware)
+ */
+function matchingBrace(text: string, open: number): number {
+    let depth = 0;
+    let quoted = false;
+
+    for (let i = open; i < text.length; i++) {
+        const char = text[i];
+        if (char === "'") {
+            if (text[i + 1] === "'") {
+                i++;
+            } else if (quoted || text[i + 1] === '{' || text[i + 1] === '}') {
+                quoted = !quoted;
+            }
+            continue;
+        }
+        if (quoted) continue;
+        if (char === '{') depth++;
+        if (char === '}' && --depth === 0) return i;
+    }
+
+    throw new Error(`Unbalanced braces in ICU message: ${text.slice(open, open + 40)}`);
+}
+
+// =============================================================================
+// GETTEXT PO
+// =============================================================================
+
+interface PoEntry {
+    lines: string[];            // Everything before the first msgstr line
+    context?: string;
+    msgid?: string;
+    msgidPlural?: string;
+    msgstr: Map<number, string>; // Plural index -> translation (0 for singular)
+    note?: string;
+}
+
+function unescapePo(value: string): string {
+    return value.replace(/\\(["\\nt])/g, (_, char: string) => ({ n: '\n', t: '\t' } as Record<string, string>)[char] ?? char);
+}
+
+function escapePo(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format a msgstr field, splitting multi-line strings the way msgfmt does
+ */
+function formatPoField(keyword: string, value: string): string[] {
+    const lines = value.split(/(?<=\n)/);
+    if (lines.length <= 1) {
+        return [`${keyword} "${escapePo(value)}"`];
+    }
+    return [`${keyword} ""`, ...lines.map(line => `"${escapePo(line)}"`)];
+}
+
+function parsePoEntry(block: string[]): PoEntry {
+    const entry: PoEntry = { lines: [], msgstr: new Map() };
+    const notes: string[] = [];
+    let field: { name: string; value: string } | null = null;
+    let inMsgstr = false;
+
+    const commit = () => {
+        if (!field) return;
+        const value = unescapePo(field.value);
+        if (field.name === 'msgctxt') entry.context = value;
+        else if (field.name === 'msgid') entry.msgid = value;
+        else if (field.name === 'msgid_plural') entry.msgidPlural = value;
+        else {
+            const index = field.name.match(/\[(\d+)\]/);
+            entry.msgstr.set(index ? parseInt(index[1], 10) : 0, value);
+        }
+        field = null;
+    };
+
+    for (const line of block) {
+        const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"\s*$/);
+        const continuation = line.match(/^\s*"(.*)"\s*$/);
+
+        if (keyword) {
+            commit();
+            field = { name: keyword[1], value: keyword[2] };
+            inMsgstr = inMsgstr || keyword[1].startsWith('msgstr');
+        } else if (continuation && field) {
+            field.value += continuation[1];
+        } else if (line.startsWith('#.')) {
+            notes.push(line.slice(2).trim());
+        }
+
+        if (!inMsgstr) entry.lines.push(line);
+    }
+    commit();
+
+    if (notes.length > 0) entry.note = notes.join(' ');
+    return entry;
+}
+
+function walkPo(content: string, targetLanguage: string, visit: UnitVisitor): string {
+    const lines = content.split('\n');
+    const output: string[] = [];
+    const pluralForms = PO_PLURAL_FORMS[targetLanguage];
+    const nplurals = pluralForms ? parseInt(pluralForms.match(/nplurals=(\d+)/)![1], 10) : null;
+
+    let block: string[] = [];
+    let entryIndex = 0;
+
+    const flush = () => {
+        if (block.length === 0) return;
+        const entry = parsePoEntry(block);
+        output.push(...rewritePoEntry(block, entry, entryIndex++, targetLanguage, pluralForms, nplurals, visit));
+        block = [];
+    };
+
+    for (const line of lines) {
+        if (line.trim() === '') {
+            flush();
+            output.push(line);
+        } else {
+            block.push(line);
+        }
+    }
+    flush();
+
+    return output.join('\n');
+}
+
+function rewritePoEntry(
+    block: string[],
+    entry: PoEntry,
+    index: number,
+    targetLanguage: string,
+    pluralForms: string | undefined,
+    nplurals: number | null,
+    visit: UnitVisitor
+): string[] {
+    if (entry.msgid === undefined) {
+        return block; // comments only, or obsolete (#~) entries
+    }
+
+    // Header: set the target language (and its plural rule when known)
+    if (entry.msgid === '') {
+        let header = entry.msgstr.get(0) ?? '';
+        header = /^Language:/m.test(header)
+            ? header.replace(/^Language:.*$/m, `Language: ${targetLanguage}`)
+            : header + `Language: ${targetLanguage}\n`;
+        if (pluralForms) {
+            header = /^Plural-Forms:/m.test(header)
+                ? header.replace(/^Plural-Forms:.*$/m, `Plural-Forms: ${pluralForms}`)
+                : header + `Plural-Forms: ${pluralForms}\n`;
+        }
+        return [...entry.lines, ...formatPoField('msgstr', header)];
+    }
+
+    const translated = [...entry.msgstr.values()].some(value => value !== '');
+    if (translated) {
+        return block;
+    }
+
+    const unit = { context: entry.context, note: entry.note };
+
+    if (entry.msgidPlural === undefined) {
+        const translation = visit({ id: `${index}`, source: entry.msgid, ...unit });
+        return translation === undefined ? block : [...entry.lines, ...formatPoField('msgstr', translation)];
+    }
+
+    const singular = visit({ id: `${index}:singular`, source: entry.msgid, ...unit });
+    const plural = visit({ id: `${index}:plural`, source: entry.msgidPlural, ...unit });
+    if (singular === undefined || plural === undefined) {
+        return block;
+    }
+
+    // Index 0 is the singular form except in languages without plurals
+    const count = nplurals ?? Math.max(entry.msgstr.size, 2);
+    const forms: string[] = [];
+    for (let n = 0; n < count; n++) {
+        forms.push(...formatPoField(`msgstr[${n}]`, n === 0 && count > 1 ? singular : plural));
+    }
+    return [...entry.lines, ...forms];
+}
+
+// =============================================================================
+// XML FORMATS (XLIFF, Android)
+// =============================================================================
+
+function xmlAttribute(tag: string, name: string): string | undefined {
+    return tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`))?.slice(1).find(v => v !== undefined);
+}
+
+function setXmlAttribute(tag: string, name: string, value: string): string {
+    const pattern = new RegExp(`(\\s${name}\\s*=\\s*)(?:"[^"]*"|'[^']*')`);
+    return pattern.test(tag)
+        ? tag.replace(pattern, `$1"${value}"`)
+        : tag.replace(/\s*(\/?>)$/, ` ${name}="${value}"$1`);
+}
+
+function stripXml(text: string): string {
+    return text.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Escape characters the model may have introduced that would break the XML
+ */
+function escapeXmlText(text: string): string {
+    return text.replace(/&(?!(?:[a-zA-Z][a-zA-Z0-9]*|#\d+|#x[0-9a-fA-F]+);)/g, '&amp;');
+}
+
+function walkXliff(content: string, targetLanguage: string, visit: UnitVisitor): string {
+    const version2 = /<xliff\b[^>]*\sversion\s*=\s*["']2/.test(content);
+
+    if (!/<xliff\b/.test(content)) {
+        throw new Error('Not an XLIFF document');
+    }
+
+    if (version2) {
+        const withLanguage = content.replace(/<xliff\b[^>]*>/, tag => setXmlAttribute(tag, 'trgLang', targetLanguage));
+        return withLanguage.replace(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g, (whole, attrs: string, body: string) => {
+            const id = xmlAttribute(`<unit${attrs}>`, 'id') ?? '';
+            if (xmlAttribute(`<unit${attrs}>`, 'translate') === 'no') return whole;
+
+            const note = [...body.matchAll(/<note\b[^>]*>([\s\S]*?)<\/note>/g)].map(m => stripXml(m[1])).join(' ') || undefined;
+            let segmentIndex = 0;
+
+            const rewritten = body.replace(/<segment\b[^>]*>[\s\S]*?<\/segment>/g, segment =>
+                rewriteXliffSegment(segment, { id: `${id}#${segmentIndex++}`, note }, visit)
+            );
+            return `<unit${attrs}>${rewritten}</unit>`;
+        });
+    }
+
+    const withLanguage = content.replace(/<file\b[^>]*>/g, tag => setXmlAttribute(tag, 'target-language', targetLanguage));
+    return withLanguage.replace(/<trans-unit\b[^>]*>[\s\S]*?<\/trans-unit>/g, unit => {
+        const openTag = unit.match(/^<trans-unit\b[^>]*>/)![0];
+        if (xmlAttribute(openTag, 'translate') === 'no') return unit;
+
+        const id = xmlAttribute(openTag, 'id') ?? '';
+        const note = [...unit.matchAll(/<note\b[^>]*>([\s\S]*?)<\/note>/g)].map(m => stripXml(m[1])).join(' ') || undefined;
+        return rewriteXliffSegment(unit, { id, note }, visit, ' state="translated"');
+    });
+}
+
+/**
+ * Fill in the <target> of a trans-unit (1.2) or segment (2.0) when empty
+ */
+function rewriteXliffSegment(
+    element: string,
+    unit: Omit<LocalisationUnit, 'source'>,
+    visit: UnitVisitor,
+    targetAttributes: string = ''
+): string {
+    const source = element.match(/<source\b[^>]*>([\s\S]*?)<\/source>/);
+    if (!source || !/[\p{L}]/u.test(stripXml(source[1]))) return element;
+
+    const target = element.match(/<target\b[^>]*?(?:\/>|>([\s\S]*?)<\/target>)/);
+    if (target && target[1] && target[1].trim() !== '') return element;
+
+    const translation = visit({ ...unit, source: source[1] });
+    if (translation === undefined) return element;
+
+    const targetElement = `<target${targetAttributes}>${escapeXmlText(translation)}</target>`;
+    if (target) {
+        return element.replace(target[0], targetElement);
+    }
+
+    // Insert after </source>, matching the indentation of <source>
+    const indent = element.slice(0, source.index).match(/\n([ \t]*)$/)?.[1];
+    const insertAt = source.index! + source[0].length;
+    return element.slice(0, insertAt) + (indent !== undefined ? `\n${indent}` : '') + targetElement + element.slice(insertAt);
+}
+
+// Android resource escapes: \' \" \n \t \@ \? \\
+function unescapeAndroid(value: string): string {
+    let text = value;
+    if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+        text = text.slice(1, -1);
+    }
+    return text.replace(/\\(['"nt@?\\])/g, (_, char: string) => ({ n: '\n', t: '\t' } as Record<string, string>)[char] ?? char);
+}
+
+function escapeAndroid(value: string): string {
+    const escaped = escapeXmlText(value)
+        .replace(/\\/g, '\\\\')
+        .replace(/'/g, "\\'")
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\t/g, '\\t');
+    return /^[@?]/.test(escaped) ? `\\${escaped}` : escaped;
+}
+
+function walkAndroidXml(content: string, targetLanguage: string, visit: UnitVisitor): string {
+    if (!/<resources\b/.test(content)) {
+        throw new Error('Not an Android resources file');
+    }
+
+    const categories = pluralCategories(targetLanguage);
+    const element = /(<!--([\s\S]*?)-->\s*)?<(string-array|string|plurals)(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/\3>)/g;
+
+    return content.replace(element, (whole, commentBlock: string | undefined, comment: string | undefined, tagName: string, attrs: string, body: string | undefined) => {
+        const openTag = `<${tagName}${attrs}>`;
+        const name = xmlAttribute(openTag, 'name') ?? '';
+        if (body === undefined || xmlAttribute(openTag, 'translatable') === 'false') return whole;
+
+        const note = comment?.trim() || undefined;
+        const prefix = commentBlock ?? '';
+        const translateValue = (id: string, raw: string) => {
+            if (/^\s*<!\[CDATA\[/.test(raw) || !/[\p{L}]/u.test(stripXml(raw)) || raw.trim().startsWith('@')) {
+                return raw;
+            }
+            const translation = visit({ id, source: unescapeAndroid(raw.trim()), note });
+            return translation === undefined ? raw : escapeAndroid(translation);
+        };
+
+        if (tagName === 'string') {
+            return `${prefix}${openTag}${translateValue(name, body)}</string>`;
+        }
+
+        if (tagName === 'string-array') {
+            let i = 0;
+            const items = body.replace(/<item\b([^>]*)>([\s\S]*?)<\/item>/g, (_, itemAttrs: string, value: string) =>
+                `<item${itemAttrs}>${translateValue(`${name}[${i++}]`, value)}</item>`
+            );
+            return `${prefix}${openTag}${items}</string-array>`;
+        }
+
+        // <plurals>: one <item quantity> per category of the target language
+        const items = [...body.matchAll(/<item\b[^>]*quantity\s*=\s*["'](\w+)["'][^>]*>([\s\S]*?)<\/item>/g)];
+        if (items.length === 0) return whole;
+
+        const forms = Object.fromEntries(items.map(m => [m[1], m[2]]));
+        const indent = body.match(/\n([ \t]*)<item/)?.[1] ?? '    ';
+        const closingIndent = body.match(/\n([ \t]*)$/)?.[1] ?? '';
+
+        const rewritten = categories
+            .map(category => `\n${indent}<item quantity="${category}">${translateValue(`${name}:${category}`, pluralSource(forms, category)!)}</item>`)
+            .join('');
+        return `${prefix}${openTag}${rewritten}\n${closingIndent}</plurals>`;
+    });
+}
+
+// =============================================================================
+// APPLE .strings
+// =============================================================================
+
+function unescapeAppleString(value: string): string {
+    return value.replace(/\\(U[0-9a-fA-F]{4}|["\\nrt])/g, (_, escape: string) => {
+        if (escape[0] === 'U') return String.fromCharCode(parseInt(escape.slice(1), 16));
+        return ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[escape] ?? escape;
+    });
+}
+
+function escapeAppleString(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t');
+}
+
+function walkAppleStrings(content: string, visit: UnitVisitor): string {
+    const token = /\/\*([\s\S]*?)\*\/|\/\/([^\n]*)|"((?:[^"\\]|\\.)*)"(\s*=\s*)"((?:[^"\\]|\\.)*)"(\s*;)/g;
+    let lastComment: { text: string; end: number } | null = null;
+
+    return content.replace(token, (whole, block, line, key, equals, value, semicolon, offset: number) => {
+        if (key === undefined) {
+            lastComment = { text: (block ?? line).trim(), end: offset + whole.length };
+            return whole;
+        }
+
+        // A comment only describes the pair directly below it (no blank line between)
+        const gap = lastComment ? content.slice(lastComment.end, offset) : '';
+        const note = lastComment && gap.trim() === '' && !/\n\s*\n/.test(gap) ? lastComment.text : undefined;
+        lastComment = null;
+
+        const source = unescapeAppleString(value);
+        if (!/[\p{L}]/u.test(source)) return whole;
+
+        const translation = visit({ id: unescapeAppleString(key), source, note });
+        return translation === undefined ? whole : `"${key}"${equals}"${escapeAppleString(translation)}"${semicolon}`;
+    });
+}
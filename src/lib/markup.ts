@@ -0,0 +1,440 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - HTML & Markdown Documents
+ * =============================================================================
+ * Splits a marked-up document into translatable units (text runs and opt-in
+ * attributes) and a template holding everything else, then re-serialises the
+ * document from the translated units.
+ *
+ * - Inline tags (<b>, <a href>, `code`, [links](url)) inside a run are masked
+ *   as placeholders so the sentence is translated as a whole
+ * - Block tags, comments, code blocks and translate="no" elements are copied
+ *   through untouched
+ * - Attributes (alt, title...) are only translated when asked for
+ * =============================================================================
+ */
+
+import { maskSpans, unmaskText, type MaskSpan, type Placeholder } from './masking';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type DocumentFormat = 'text' | 'html' | 'markdown';
+
+export interface TranslatableUnit {
+    index: number;
+    kind: 'text' | 'attribute';
+    text: string;               // Text to translate, markup masked as placeholders
+    placeholders: Placeholder[];
+}
+
+export interface ParsedDocument {
+    format: DocumentFormat;
+    template: string;           // Source with every unit replaced by a marker
+    units: TranslatableUnit[];
+}
+
+export interface DocumentOptions {
+    /** Attribute names whose values are translated (default: none) */
+    translateAttributes?: string[];
+}
+
+export interface RenderResult {
+    text: string;
+    /** Markup placeholders lost or duplicated by the model */
+    missing: Placeholder[];
+    duplicated: Placeholder[];
+}
+
+export const DOCUMENT_FORMATS: DocumentFormat[] = ['text', 'html', 'markdown'];
+
+// Attributes callers may opt in to; `true` selects the first two
+export const TRANSLATABLE_ATTRIBUTES = ['alt', 'title', 'aria-label', 'placeholder'];
+
+// Tags that flow with the surrounding text
+const INLINE_TAGS = new Set([
+    'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'data', 'dfn', 'em', 'font', 'i', 'img',
+    'ins', 'del', 'kbd', 'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup',
+    'time', 'u', 'var', 'wbr',
+]);
+
+// Elements whose content is never translated
+const RAW_TAGS = new Set(['script', 'style', 'pre', 'code', 'textarea', 'svg', 'math', 'template']);
+
+const VOID_TAGS = new Set([
+    'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Comments, doctypes and tags (attribute values may contain '>')
+const HTML_TOKEN = /<!--[\s\S]*?-->|<![^>]*>|<\/?([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const HTML_ATTRIBUTE = /([^\s=\/>"']+)(\s*=\s*)("[^"]*"|'[^']*'|[^\s>]+)/g;
+const HTML_ENTITY = /&(?:[a-zA-Z][a-zA-Z0-9]*|#\d+|#x[0-9a-fA-F]+);/g;
+
+// Marks a unit's position in the template
+const MARKER = /\u0000(\d+)\u0000/g;
+const marker = (index: number) => `\u0000${index}\u0000`;
+
+// =============================================================================
+// DOCUMENT BUILDER
+// =============================================================================
+
+/**
+ * Collects units while a parser walks the source
+ */
+class DocumentBuilder {
+    units: TranslatableUnit[] = [];
+
+    /**
+     * Register text (with spans to mask) as a unit and return its marker.
+     * Surrounding whitespace and runs with nothing to translate stay literal.
+     */
+    text(source: string, spans: MaskSpan[] = []): string {
+        const masked = maskSpans(source, spans);
+        const stripped = masked.text.replace(/__PH\d+__/g, '');
+        if (!/[\p{L}\p{N}]/u.test(stripped)) {
+            return masked.placeholders.length > 0 ? unmaskText(masked.text, masked.placeholders).text : source;
+        }
+
+        const leading = masked.text.match(/^\s*/)![0];
+        const trailing = masked.text.slice(leading.length).match(/\s*$/)![0];
+        const inner = masked.text.slice(leading.length, masked.text.length - trailing.length);
+
+        return leading + this.add('text', inner, masked.placeholders) + trailing;
+    }
+
+    attribute(value: string): string {
+        return /[\p{L}]/u.test(value) ? this.add('attribute', value, []) : value;
+    }
+
+    private add(kind: TranslatableUnit['kind'], text: string, placeholders: Placeholder[]): string {
+        const index = this.units.length;
+        this.units.push({ index, kind, text, placeholders });
+        return marker(index);
+    }
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Split a document into translatable units and a template
+ */
+export function parseDocument(
+    source: string,
+    format: DocumentFormat,
+    options: DocumentOptions = {}
+): ParsedDocument {
+    const builder = new DocumentBuilder();
+    const attributes = new Set((options.translateAttributes || []).map(a => a.toLowerCase()));
+
+    let template: string;
+    switch (format) {
+        case 'html':
+            template = parseHtml(source, builder, attributes);
+            break;
+        case 'markdown':
+            template = parseMarkdown(source, builder, attributes);
+            break;
+        default:
+            template = builder.text(source);
+    }
+
+    return { format, template, units: builder.units };
+}
+
+/**
+ * Walk HTML, grouping text and inline tags into runs
+ */
+function parseHtml(source: string, builder: DocumentBuilder, attributes: Set<string>): string {
+    let output = '';
+    let runStart = -1;          // Offset where the current inline run began
+    let runSpans: MaskSpan[] = [];
+
+    const flush = (end: number) => {
+        if (runStart !== -1) {
+            output += builder.text(source.slice(runStart, end), runSpans);
+        }
+        runStart = -1;
+        runSpans = [];
+    };
+
+    const inRun = (start: number, end: number, replacement: string, kind: string) => {
+        if (runStart === -1) runStart = start;
+        runSpans.push({ start: start - runStart, end: end - runStart, replacement, kind });
+    };
+
+    let cursor = 0;
+    HTML_TOKEN.lastIndex = 0;
+
+    while (cursor < source.length) {
+        HTML_TOKEN.lastIndex = cursor;
+        const match = HTML_TOKEN.exec(source);
+        const textEnd = match ? match.index : source.length;
+
+        // Plain text (entities masked so they survive verbatim)
+        if (textEnd > cursor) {
+            if (runStart === -1) runStart = cursor;
+            for (const entity of source.slice(cursor, textEnd).matchAll(HTML_ENTITY)) {
+                const start = cursor + entity.index!;
+                inRun(start, start + entity[0].length, entity[0], 'entity');
+            }
+        }
+        if (!match) break;
+
+        const token = match[0];
+        const tagName = match[1]?.toLowerCase();
+        const start = match.index;
+        let end = start + token.length;
+
+        if (!tagName) {
+            // Comment or doctype
+            flush(start);
+            output += token;
+            cursor = end;
+            continue;
+        }
+
+        const closing = token.startsWith('</');
+        const skip = !closing && (RAW_TAGS.has(tagName) || /\stranslate\s*=\s*["']?no\b/i.test(match[2]));
+
+        // Untranslated elements are copied whole, including their content
+        let replacement: string;
+        if (skip && !VOID_TAGS.has(tagName) && !token.endsWith('/>')) {
+            end = findClosingTag(source, tagName, end);
+            replacement = source.slice(start, end);
+        } else {
+            replacement = closing ? token : rewriteAttributes(token, builder, attributes);
+        }
+
+        if (INLINE_TAGS.has(tagName) || (skip && tagName === 'code')) {
+            inRun(start, end, replacement, 'tag');
+        } else {
+            flush(start);
+            output += replacement;
+        }
+
+        cursor = end;
+    }
+
+    flush(source.length);
+    return output;
+}
+
+/**
+ * Offset just past the tag closing `tagName`, allowing for nesting
+ */
+function findClosingTag(source: string, tagName: string, from: number): number {
+    const pattern = new RegExp(`<(/?)${tagName}\\b[^>]*>`, 'gi');
+    pattern.lastIndex = from;
+
+    let depth = 1;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source))) {
+        depth += match[1] ? -1 : 1;
+        if (depth === 0) {
+            return match.index + match[0].length;
+        }
+    }
+    return source.length;
+}
+
+/**
+ * Swap translatable attribute values in a tag for unit markers
+ */
+function rewriteAttributes(tag: string, builder: DocumentBuilder, attributes: Set<string>): string {
+    if (attributes.size === 0) return tag;
+
+    return tag.replace(HTML_ATTRIBUTE, (whole, name: string, equals: string, quoted: string) => {
+        if (!attributes.has(name.toLowerCase())) return whole;
+
+        const quote = quoted[0] === '"' || quoted[0] === "'" ? quoted[0] : '';
+        const value = quote ? quoted.slice(1, -1) : quoted;
+        return `${name}${equals}${quote || '"'}${builder.attribute(value)}${quote || '"'}`;
+    });
+}
+
+// Markdown line structure
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const BLOCK_PREFIX = /^(\s*(?:(?:#{1,6}|>|[-*+]|\d{1,9}[.)])(?:\s+|$)(?:\[[ xX]\]\s+)?)*)/;
+const THEMATIC_BREAK = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-{2,}:?\s*(?:\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const LINK_DEFINITION = /^\s{0,3}\[[^\]]+\]:\s*\S+/;
+
+// Inline markdown that must come through unchanged
+const MARKDOWN_INLINE = new RegExp([
+    '`+[^`\\n]*?`+',                                 // code spans
+    '!\\[[^\\]]*\\]\\([^)\\s]*(?:\\s+"[^"]*")?\\)',  // images
+    '\\]\\([^)\\s]*(?:\\s+"[^"]*")?\\)',             // link destination
+    '\\]\\[[^\\]]*\\]',                              // reference link label
+    '(?<!\\\\)\\[(?=[^\\]]*\\]\\(|[^\\]]*\\]\\[)',   // opening bracket of a link
+    '<https?:\\/\\/[^>\\s]+>',                       // autolinks
+    '<\\/?[a-zA-Z][\\w-]*(?:\\s[^<>]*)?\\/?>',       // inline HTML
+    '&(?:[a-zA-Z][a-zA-Z0-9]*|#\\d+|#x[0-9a-fA-F]+);',
+].join('|'), 'g');
+
+/**
+ * Walk Markdown line by line, keeping structure and translating inline runs
+ */
+function parseMarkdown(source: string, builder: DocumentBuilder, attributes: Set<string>): string {
+    const lines = source.split('\n');
+    const output: string[] = [];
+
+    let fence: string | null = null;
+    let previousBlank = true;
+
+    for (const line of lines) {
+        const fenceMatch = line.match(FENCE);
+        if (fence) {
+            output.push(line);
+            if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+                fence = null;
+            }
+            continue;
+        }
+        if (fenceMatch) {
+            fence = fenceMatch[1];
+            output.push(line);
+            continue;
+        }
+
+        const blank = line.trim() === '';
+        const indentedCode: boolean = previousBlank && /^(?: {4}|\t)/.test(line);
+        previousBlank = blank || (indentedCode && previousBlank);
+
+        if (blank || indentedCode || THEMATIC_BREAK.test(line) || TABLE_DELIMITER.test(line) || LINK_DEFINITION.test(line)) {
+            output.push(line);
+            continue;
+        }
+
+        const prefix = line.match(BLOCK_PREFIX)![1];
+        const content = line.slice(prefix.length);
+
+        // Table rows: translate each cell on its own
+        if (content.includes('|') && /^\s*\|/.test(content)) {
+            output.push(prefix + content.split('|').map(cell => markdownInline(cell, builder, attributes)).join('|'));
+            continue;
+        }
+
+        output.push(prefix + markdownInline(content, builder, attributes));
+    }
+
+    return output.join('\n');
+}
+
+/**
+ * Register a run of inline Markdown, masking links, code and HTML
+ */
+function markdownInline(text: string, builder: DocumentBuilder, attributes: Set<string>): string {
+    const spans: MaskSpan[] = [];
+
+    for (const match of text.matchAll(MARKDOWN_INLINE)) {
+        const start = match.index!;
+        let replacement = match[0];
+
+        // ![alt](src) - alt text is the Markdown equivalent of the attribute
+        if (replacement.startsWith('![') && attributes.has('alt')) {
+            const altEnd = replacement.indexOf('](');
+            replacement = '![' + builder.attribute(replacement.slice(2, altEnd)) + replacement.slice(altEnd);
+        } else if (replacement.startsWith('<') && !replacement.startsWith('<http')) {
+            replacement = rewriteAttributes(replacement, builder, attributes);
+        }
+
+        spans.push({ start, end: start + match[0].length, replacement, kind: 'markup' });
+    }
+
+    return builder.text(text, spans);
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+/**
+ * Rebuild the document from translated units (same order as `units`)
+ */
+export function renderDocument(document: ParsedDocument, translations: string[]): RenderResult {
+    const missing: Placeholder[] = [];
+    const duplicated: Placeholder[] = [];
+    const rendered = new Map<number, string>();
+
+    const render = (index: number): string => {
+        if (rendered.has(index)) return rendered.get(index)!;
+
+        const unit = document.units[index];
+        const translated = translations[index] ?? unit.text;
+        let text: string;
+
+        if (unit.kind === 'attribute') {
+            text = escapeMarkup(translated, document.format, true);
+        } else {
+            const restored = unmaskText(escapeMarkup(translated, document.format, false), unit.placeholders);
+            missing.push(...restored.missing);
+            duplicated.push(...restored.duplicated);
+            text = restored.text;
+        }
+
+        // Placeholders can carry attribute markers of their own
+        text = text.replace(MARKER, (_, i: string) => render(parseInt(i, 10)));
+        rendered.set(index, text);
+        return text;
+    };
+
+    const text = document.template.replace(MARKER, (_, i: string) => render(parseInt(i, 10)));
+    return { text, missing, duplicated };
+}
+
+/**
+ * Escape characters the model may have introduced that would break markup
+ */
+function escapeMarkup(text: string, format: DocumentFormat, attribute: boolean): string {
+    if (format !== 'html' && !(format === 'markdown' && attribute)) {
+        return text;
+    }
+    if (format === 'markdown') {
+        return text.replace(/[\[\]]/g, '\\$&');
+    }
+
+    const escaped = text.replace(/&(?!(?:[a-zA-Z][a-zA-Z0-9]*|#\d+|#x[0-9a-fA-F]+);)/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+    return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
+
+// =============================================================================
+// TRUNCATION
+// =============================================================================
+
+/**
+ * Cut a document to at most `limit` characters without splitting a tag,
+ * entity or Markdown construct - the cut falls back to the last safe point.
+ */
+export function truncateDocument(source: string, limit: number, format: DocumentFormat): string {
+    if (source.length <= limit) return source;
+
+    let cut = limit;
+
+    if (format === 'html') {
+        // Inside a tag, comment or entity: back up to where it starts
+        const lastOpen = source.lastIndexOf('<', cut - 1);
+        if (lastOpen > source.lastIndexOf('>', cut - 1)) cut = lastOpen;
+
+        const lastAmp = source.lastIndexOf('&', cut - 1);
+        if (lastAmp !== -1 && !source.slice(lastAmp, cut).includes(';') && cut - lastAmp <= 10) cut = lastAmp;
+    }
+
+    if (format === 'markdown') {
+        // Whole lines only, so links and code spans are never split
+        const lastNewline = source.lastIndexOf('\n', cut);
+        if (lastNewline > 0) cut = lastNewline;
+    }
+
+    // Prefer a word boundary to half a word
+    if (/\S/.test(source[cut - 1] || '') && /\S/.test(source[cut] || '')) {
+        const lastSpace = source.slice(0, cut).search(/\s\S*$/);
+        if (lastSpace > 0 && cut - lastSpace < 100) cut = lastSpace;
+    }
+
+    return source.slice(0, cut);
+}
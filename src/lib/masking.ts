@@ -0,0 +1,138 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Placeholder Masking
+ * =============================================================================
+ * Replaces spans of text with opaque tokens before machine translation and
+ * puts them back afterwards. Used wherever part of the input must come out
+ * of the model untouched (glossary terms, protected tokens).
+ *
+ * Tokens look like `__PH0__`: translation models tend to copy them verbatim,
+ * and the unmasking regex tolerates the spacing/case damage they sometimes do.
+ * =============================================================================
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface MaskSpan {
+    start: number;
+    end: number;
+    /** Text to put back in place of the token after translation */
+    replacement: string;
+    /** Free-form label so callers can tell their spans apart */
+    kind: string;
+}
+
+export interface Placeholder {
+    token: string;
+    index: number;
+    start: number;      // Offset of the masked span in the original text
+    end: number;
+    original: string;
+    replacement: string;
+    kind: string;
+}
+
+export interface UnmaskResult {
+    text: string;
+    /** Placeholders whose token did not survive translation */
+    missing: Placeholder[];
+    /** Placeholders whose token came back more than once */
+    duplicated: Placeholder[];
+}
+
+// Tolerates "__PH0__", "__ PH 0 __", "_ph0_" and similar model damage
+const TOKEN_PATTERN = /_{1,2}\s?PH\s?(\d+)\s?_{1,2}/gi;
+
+// =============================================================================
+// MASKING
+// =============================================================================
+
+/**
+ * Build a placeholder token for the given index
+ */
+export function placeholderToken(index: number): string {
+    return `__PH${index}__`;
+}
+
+/**
+ * Replace the given spans with placeholder tokens. Overlapping spans are
+ * resolved in favour of whichever starts first (then the longest).
+ */
+export function maskSpans(
+    text: string,
+    spans: MaskSpan[],
+    startIndex: number = 0
+): { text: string; placeholders: Placeholder[] } {
+    const ordered = [...spans].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+    const placeholders: Placeholder[] = [];
+
+    let masked = '';
+    let cursor = 0;
+
+    for (const span of ordered) {
+        if (span.start < cursor) continue; // overlaps an earlier span
+
+        const index = startIndex + placeholders.length;
+        const token = placeholderToken(index);
+
+        masked += text.slice(cursor, span.start) + token;
+        placeholders.push({
+            token,
+            index,
+            start: span.start,
+            end: span.end,
+            original: text.slice(span.start, span.end),
+            replacement: span.replacement,
+            kind: span.kind,
+        });
+        cursor = span.end;
+    }
+
+    masked += text.slice(cursor);
+    return { text: masked, placeholders };
+}
+
+/**
+ * Put placeholder replacements back into translated text and report any
+ * token that went missing or was duplicated by the model.
+ */
+export function unmaskText(text: string, placeholders: Placeholder[]): UnmaskResult {
+    const byIndex = new Map(placeholders.map(p => [p.index, p]));
+    const seen = new Map<number, number>();
+
+    const restored = text.replace(TOKEN_PATTERN, (match, digits: string) => {
+        const placeholder = byIndex.get(parseInt(digits, 10));
+        if (!placeholder) return match;
+        seen.set(placeholder.index, (seen.get(placeholder.index) || 0) + 1);
+        return placeholder.replacement;
+    });
+
+    return {
+        text: restored,
+        missing: placeholders.filter(p => !seen.has(p.index)),
+        duplicated: placeholders.filter(p => (seen.get(p.index) || 0) > 1),
+    };
+}
+
+/**
+ * Map an offset in masked text back to the corresponding offset in the
+ * original text (placeholders must come from the same maskSpans call).
+ */
+export function originalOffset(maskedOffset: number, placeholders: Placeholder[]): number {
+    let shift = 0; // masked offset minus original offset so far
+
+    for (const placeholder of placeholders) {
+        const maskedStart = placeholder.start + shift;
+        if (maskedStart >= maskedOffset) break;
+
+        const maskedEnd = maskedStart + placeholder.token.length;
+        if (maskedOffset < maskedEnd) {
+            return placeholder.start; // inside a token - snap to its start
+        }
+        shift += placeholder.token.length - (placeholder.end - placeholder.start);
+    }
+
+    return maskedOffset - shift;
+}
@@ -0,0 +1,275 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - English Morphology
+ * =============================================================================
+ * Maps inflected English words to the lemmas the dictionary is keyed by, so
+ * "running", "ran", "children" and "books," are found as "run", "child" and
+ * "book":
+ *
+ * - Surrounding punctuation is stripped before lookup
+ * - Irregular forms come from a table ("went" -> "go", past)
+ * - Regular forms are undone by suffix rules, each offering candidate lemmas
+ *   ("stopped" -> "stopp", "stop", "stoppe"); the first one the dictionary
+ *   knows, with a fitting part of speech, wins
+ *
+ * The translation of the lemma is then re-inflected where a simple rule
+ * exists for the target language (Romance plurals and comparatives), or
+ * flagged as uninflected.
+ * =============================================================================
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type Inflection =
+    | 'plural'
+    | 'possessive'
+    | 'present'             // Present tense, not third person singular ("am", "are")
+    | 'third_person'
+    | 'past'
+    | 'past_participle'
+    | 'present_participle'
+    | 'comparative'
+    | 'superlative';
+
+export interface WordAnalysis {
+    word: string;               // Without surrounding punctuation, lowercased
+    lemma: string;
+    inflection: Inflection | null;
+    irregular?: boolean;        // Found in the irregular forms table ("better" -> "good")
+}
+
+export interface StrippedWord {
+    leading: string;
+    core: string;
+    trailing: string;
+}
+
+// What the analyser needs to know about a candidate lemma
+export type LemmaLookup = (lemma: string) => { pos?: string } | null;
+
+interface SuffixRule {
+    suffix: string;
+    inflection: Inflection;
+    lemmas: (stem: string) => string[];
+}
+
+// Parts of speech each inflection applies to (lemmas without a pos pass)
+const INFLECTION_POS: Record<Inflection, string[]> = {
+    plural: ['noun'], // "its" is a possessive, not the plural of "it"
+    possessive: ['noun'], // "it's" is a contraction, not a possessive
+    present: ['verb'],
+    third_person: ['verb'],
+    past: ['verb'],
+    past_participle: ['verb'],
+    present_participle: ['verb'],
+    comparative: ['adjective', 'adverb'],
+    superlative: ['adjective', 'adverb'],
+};
+
+const IRREGULAR_FORMS: Record<string, [string, Inflection]> = {
+    // Nouns
+    children: ['child', 'plural'], men: ['man', 'plural'], women: ['woman', 'plural'],
+    people: ['person', 'plural'], feet: ['foot', 'plural'], teeth: ['tooth', 'plural'],
+    mice: ['mouse', 'plural'], geese: ['goose', 'plural'],
+    // Verbs
+    was: ['be', 'past'], were: ['be', 'past'], been: ['be', 'past_participle'],
+    is: ['be', 'third_person'], are: ['be', 'present'], am: ['be', 'present'],
+    has: ['have', 'third_person'], had: ['have', 'past'], does: ['do', 'third_person'],
+    did: ['do', 'past'], done: ['do', 'past_participle'], went: ['go', 'past'],
+    gone: ['go', 'past_participle'], ran: ['run', 'past'], said: ['say', 'past'],
+    made: ['make', 'past'], took: ['take', 'past'], taken: ['take', 'past_participle'],
+    came: ['come', 'past'], saw: ['see', 'past'], seen: ['see', 'past_participle'],
+    knew: ['know', 'past'], known: ['know', 'past_participle'], got: ['get', 'past'],
+    gotten: ['get', 'past_participle'], gave: ['give', 'past'], given: ['give', 'past_participle'],
+    found: ['find', 'past'], thought: ['think', 'past'], told: ['tell', 'past'],
+    became: ['become', 'past'], felt: ['feel', 'past'], brought: ['bring', 'past'],
+    began: ['begin', 'past'], begun: ['begin', 'past_participle'], kept: ['keep', 'past'],
+    held: ['hold', 'past'], wrote: ['write', 'past'], written: ['write', 'past_participle'],
+    stood: ['stand', 'past'], heard: ['hear', 'past'], meant: ['mean', 'past'],
+    met: ['meet', 'past'], paid: ['pay', 'past'], sat: ['sit', 'past'],
+    spoke: ['speak', 'past'], spoken: ['speak', 'past_participle'], led: ['lead', 'past'],
+    grew: ['grow', 'past'], grown: ['grow', 'past_participle'], lost: ['lose', 'past'],
+    fell: ['fall', 'past'], fallen: ['fall', 'past_participle'], sent: ['send', 'past'],
+    built: ['build', 'past'], understood: ['understand', 'past'], ate: ['eat', 'past'],
+    eaten: ['eat', 'past_participle'], drank: ['drink', 'past'], drunk: ['drink', 'past_participle'],
+    drove: ['drive', 'past'], driven: ['drive', 'past_participle'], flew: ['fly', 'past'],
+    flown: ['fly', 'past_participle'], swam: ['swim', 'past'], sang: ['sing', 'past'],
+    bought: ['buy', 'past'], caught: ['catch', 'past'], taught: ['teach', 'past'],
+    sold: ['sell', 'past'], slept: ['sleep', 'past'], spent: ['spend', 'past'],
+    won: ['win', 'past'], left: ['leave', 'past'], read: ['read', 'past'],
+    // Adjectives and adverbs
+    better: ['good', 'comparative'], best: ['good', 'superlative'],
+    worse: ['bad', 'comparative'], worst: ['bad', 'superlative'],
+    further: ['far', 'comparative'], furthest: ['far', 'superlative'],
+};
+
+const VOWEL = /[aeiou]$/;
+
+/**
+ * The stem as-is, with a silent "e" restored, and with a doubled final
+ * consonant undone ("runn" -> "run")
+ */
+function stemLemmas(stem: string): string[] {
+    const lemmas = [stem, `${stem}e`];
+    if (stem.length > 2 && stem.at(-1) === stem.at(-2) && !VOWEL.test(stem)) {
+        lemmas.push(stem.slice(0, -1));
+    }
+    return lemmas;
+}
+
+// Longest suffixes first
+const SUFFIX_RULES: SuffixRule[] = [
+    { suffix: "'s", inflection: 'possessive', lemmas: (stem) => [stem] },
+    { suffix: "s'", inflection: 'possessive', lemmas: (stem) => [stem, `${stem}s`] },
+    { suffix: 'iest', inflection: 'superlative', lemmas: (stem) => [`${stem}y`] },
+    { suffix: 'ying', inflection: 'present_participle', lemmas: (stem) => [`${stem}ie`, `${stem}y`] },
+    { suffix: 'ing', inflection: 'present_participle', lemmas: stemLemmas },
+    { suffix: 'ies', inflection: 'plural', lemmas: (stem) => [`${stem}y`] },
+    { suffix: 'ied', inflection: 'past', lemmas: (stem) => [`${stem}y`] },
+    { suffix: 'ier', inflection: 'comparative', lemmas: (stem) => [`${stem}y`] },
+    { suffix: 'ves', inflection: 'plural', lemmas: (stem) => [`${stem}f`, `${stem}fe`] },
+    { suffix: 'est', inflection: 'superlative', lemmas: stemLemmas },
+    { suffix: 'es', inflection: 'plural', lemmas: (stem) => [stem, `${stem}e`] },
+    { suffix: 'ed', inflection: 'past', lemmas: stemLemmas },
+    { suffix: 'er', inflection: 'comparative', lemmas: stemLemmas },
+    { suffix: 's', inflection: 'plural', lemmas: (stem) => [stem] },
+];
+
+// Shortest stem a suffix rule may leave
+const MIN_STEM_LENGTH = 2;
+
+// =============================================================================
+// ANALYSIS
+// =============================================================================
+
+/**
+ * Split surrounding punctuation from a word ("(books," -> "(", "books", ",").
+ * An apostrophe after a final "s" stays attached: it marks a plural
+ * possessive ("dogs'").
+ */
+export function stripPunctuation(word: string): StrippedWord {
+    const match = word.match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/su);
+    if (!match || !match[2]) {
+        return { leading: word, core: '', trailing: '' };
+    }
+
+    let [, leading, core, trailing] = match;
+    if (/s$/i.test(core) && /^['’]/.test(trailing)) {
+        core += trailing[0];
+        trailing = trailing.slice(1);
+    }
+    return { leading, core, trailing };
+}
+
+function fits(lookup: LemmaLookup, lemma: string, inflection: Inflection): boolean {
+    const entry = lookup(lemma);
+    return !!entry && (!entry.pos || INFLECTION_POS[inflection].includes(entry.pos));
+}
+
+/**
+ * Find the dictionary lemma of an English word. Null when neither the word
+ * nor any candidate lemma is known to `lookup`.
+ */
+export function analyseWord(word: string, lookup: LemmaLookup): WordAnalysis | null {
+    const surface = stripPunctuation(word.trim()).core.toLowerCase().replace(/’/g, "'");
+    if (!surface) {
+        return null;
+    }
+
+    if (lookup(surface)) {
+        return { word: surface, lemma: surface, inflection: null };
+    }
+
+    const irregular = IRREGULAR_FORMS[surface];
+    if (irregular && lookup(irregular[0])) {
+        return { word: surface, lemma: irregular[0], inflection: irregular[1], irregular: true };
+    }
+
+    for (const rule of SUFFIX_RULES) {
+        if (!surface.endsWith(rule.suffix) || surface.length - rule.suffix.length < MIN_STEM_LENGTH) {
+            continue;
+        }
+        const stem = surface.slice(0, -rule.suffix.length);
+
+        // A plural "-s" is a third person singular on a verb
+        const inflections: Inflection[] = rule.inflection === 'plural' && rule.suffix !== 'ves'
+            ? ['plural', 'third_person']
+            : rule.inflection === 'past' ? ['past', 'past_participle'] : [rule.inflection];
+
+        for (const lemma of rule.lemmas(stem)) {
+            const inflection = inflections.find(candidate => fits(lookup, lemma, candidate));
+            if (inflection) {
+                return { word: surface, lemma, inflection };
+            }
+        }
+    }
+
+    return null;
+}
+
+// =============================================================================
+// RE-INFLECTION
+// =============================================================================
+
+function romancePlural(word: string, language: string): string | null {
+    switch (language) {
+        case 'es':
+            if (/[aeiouáéó]$/.test(word)) return `${word}s`;
+            if (word.endsWith('z')) return `${word.slice(0, -1)}ces`;
+            return /[lrndj]$/.test(word) ? `${word}es` : null;
+        case 'pt':
+            if (/[aeiouáéó]$/.test(word)) return `${word}s`;
+            if (word.endsWith('m')) return `${word.slice(0, -1)}ns`;
+            return /[rz]$/.test(word) ? `${word}es` : null;
+        case 'fr':
+            if (/[sxz]$/.test(word)) return word;
+            if (/(eau|au|eu)$/.test(word)) return `${word}x`;
+            if (word.endsWith('al')) return `${word.slice(0, -2)}aux`;
+            return `${word}s`;
+        case 'it':
+            if (/[cg]a$/.test(word)) return `${word.slice(0, -1)}he`;
+            if (word.endsWith('a')) return `${word.slice(0, -1)}e`;
+            if (/[oe]$/.test(word)) return `${word.slice(0, -1)}i`;
+            return null;
+        default:
+            return null;
+    }
+}
+
+// Comparative particles ("more X") for languages that use one
+const COMPARATIVE_PARTICLES: Record<string, string> = { es: 'más', fr: 'plus', it: 'più', pt: 'mais' };
+
+// Languages that mark neither plural nouns nor comparison on the word
+const UNINFLECTED_LANGUAGES = ['ja', 'zh', 'ko'];
+
+/**
+ * Inflect the translation of a lemma like the source word, or null when
+ * there is no rule for it (the lemma translation is then used as-is).
+ * Slash-separated senses are inflected separately; multi-word translations
+ * are left alone. Irregular comparatives are irregular in the target too
+ * ("better" is "mejor", not "más bueno"), so they get no rule.
+ */
+export function reinflect(translation: string, inflection: Inflection, language: string, irregular: boolean = false): string | null {
+    if (inflection !== 'plural' && inflection !== 'comparative') {
+        return null;
+    }
+    if (irregular && inflection === 'comparative') {
+        return null;
+    }
+    if (UNINFLECTED_LANGUAGES.includes(language)) {
+        return translation;
+    }
+
+    const senses = translation.split('/').map(sense => {
+        if (/\s/.test(sense)) {
+            return null;
+        }
+        return inflection === 'plural'
+            ? romancePlural(sense, language)
+            : COMPARATIVE_PARTICLES[language] ? `${COMPARATIVE_PARTICLES[language]} ${sense}` : null;
+    });
+
+    return senses.every(sense => sense !== null) ? senses.join('/') : null;
+}
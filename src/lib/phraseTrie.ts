@@ -0,0 +1,117 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Phrase Tokenizer
+ * =============================================================================
+ * Groups words into dictionary phrases before they are looked up, so "thank
+ * you" is translated as one entry rather than as "thank" + "you".
+ *
+ * A trie over the words of each multi-word headword (and each variant) is
+ * walked from every position; the longest phrase that ends on a headword
+ * wins, and words that start no phrase stay single tokens.
+ * =============================================================================
+ */
+
+import { stripPunctuation } from './morphology';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface PhraseTrie {
+    children: Map<string, PhraseTrie>;
+    key?: string;           // Dictionary key of the phrase ending here
+}
+
+export interface PhraseToken {
+    text: string;           // The source words, space-joined
+    key: string;            // Dictionary key to look up (the normalised word if no phrase matched)
+    start: number;          // Index of the first source word
+    words: number;          // Source words covered
+}
+
+// Longest n-gram sent to lookups that can't walk a trie (e.g. D1 queries)
+export const MAX_PHRASE_WORDS = 4;
+
+// =============================================================================
+// BUILDING
+// =============================================================================
+
+// Surrounding punctuation never stops a phrase matching ("thank you!")
+function normaliseWord(word: string): string {
+    return stripPunctuation(word.trim()).core.toLowerCase();
+}
+
+export function createPhraseTrie(): PhraseTrie {
+    return { children: new Map() };
+}
+
+/**
+ * Add a phrase (or a variant, pointing at its headword's key)
+ */
+export function addPhrase(trie: PhraseTrie, phrase: string, key: string = phrase): void {
+    let node = trie;
+    for (const word of phrase.split(/\s+/).map(normaliseWord).filter(Boolean)) {
+        let next = node.children.get(word);
+        if (!next) {
+            next = createPhraseTrie();
+            node.children.set(word, next);
+        }
+        node = next;
+    }
+    if (node !== trie) {
+        node.key = key;
+    }
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+/**
+ * Split words into tokens, longest match first across all tries
+ */
+export function matchPhrases(words: string[], tries: PhraseTrie[]): PhraseToken[] {
+    const tokens: PhraseToken[] = [];
+
+    for (let i = 0; i < words.length;) {
+        let best: { key: string; length: number } | null = null;
+
+        for (const trie of tries) {
+            let node: PhraseTrie | undefined = trie;
+            for (let j = i; j < words.length; j++) {
+                node = node.children.get(normaliseWord(words[j]));
+                if (!node) break;
+                if (node.key !== undefined && (!best || j - i + 1 > best.length)) {
+                    best = { key: node.key, length: j - i + 1 };
+                }
+            }
+        }
+
+        const length = best?.length ?? 1;
+        tokens.push({
+            text: words.slice(i, i + length).join(' '),
+            key: best?.key ?? normaliseWord(words[i]),
+            start: i,
+            words: length,
+        });
+        i += length;
+    }
+
+    return tokens;
+}
+
+/**
+ * Every n-gram of up to MAX_PHRASE_WORDS words, normalised and de-duplicated
+ */
+export function phraseCandidates(words: string[], maxWords: number = MAX_PHRASE_WORDS): string[] {
+    const candidates = new Set<string>();
+    for (let i = 0; i < words.length; i++) {
+        for (let n = 1; n <= maxWords && i + n <= words.length; n++) {
+            const candidate = words.slice(i, i + n).map(normaliseWord).filter(Boolean).join(' ');
+            if (candidate) {
+                candidates.add(candidate);
+            }
+        }
+    }
+    return [...candidates];
+}
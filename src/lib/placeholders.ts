@@ -0,0 +1,187 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Do-Not-Translate Protection
+ * =============================================================================
+ * Detects tokens that must survive translation byte-for-byte (UI placeholders,
+ * markup, URLs, inline code) and masks them before the text reaches the model.
+ * After translation every token is checked to have come back exactly once.
+ *
+ * Built-in patterns:
+ * - dnt      <dnt>Brand Name</dnt> (markers are stripped from the output)
+ * - icu      {name}, {{count}}
+ * - printf   %s, %d, %1$s, %(name)s, %@
+ * - html     <b>, </a>, <br/>
+ * - url      https://example.com/path, www.example.com
+ * - email    support@example.com
+ * - code     `inline code`
+ * =============================================================================
+ */
+
+import { maskSpans, unmaskText, type MaskSpan, type Placeholder } from './masking';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type ProtectionPattern = 'dnt' | 'icu' | 'printf' | 'html' | 'url' | 'email' | 'code';
+
+export interface ProtectionOptions {
+    /** Built-in pattern names to apply (default: all) */
+    patterns?: ProtectionPattern[];
+    /** Extra regular expressions (source strings) whose matches are protected */
+    custom?: string[];
+}
+
+export interface PlaceholderValidationError {
+    token: string;
+    kind: string;
+    issue: 'missing' | 'duplicated';
+}
+
+export interface ProtectedText {
+    text: string;
+    placeholders: Placeholder[];
+}
+
+// Limits on caller-supplied patterns
+const MAX_CUSTOM_PATTERNS = 10;
+const MAX_CUSTOM_PATTERN_LENGTH = 100;
+
+// Repetitions other than an exact count ("{3}") or "?"
+const REPETITION = /[*+]|\{\d*,\d*\}/g;
+
+// Order matters: earlier patterns win when spans overlap (dnt wraps anything)
+const BUILTIN_PATTERNS: Array<{ name: ProtectionPattern; regex: RegExp }> = [
+    { name: 'dnt', regex: /<dnt>([\s\S]*?)<\/dnt>/gi },
+    { name: 'code', regex: /`[^`\n]+`/g },
+    { name: 'url', regex: /\b(?:https?:\/\/|www\.)[^\s<>"'`]+[^\s<>"'`.,;:!?)\]]/gi },
+    { name: 'email', regex: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g },
+    { name: 'icu', regex: /\{\{\s*[\w.\-]+\s*\}\}|\{[\w.\-]+(?:\s*,\s*[\w]+)?\}/g },
+    { name: 'printf', regex: /%(?:\d+\$)?(?:\([\w]+\))?[-+0#]*\d*(?:\.\d+)?[sdifuxXoeEgGcp@]/g },
+    { name: 'html', regex: /<\/?[a-zA-Z][\w-]*(?:\s+[^<>]*?)?\s*\/?>/g },
+];
+
+export const PROTECTION_PATTERNS: ProtectionPattern[] = BUILTIN_PATTERNS.map(p => p.name);
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+/**
+ * Whether a pattern can backtrack badly: more than one repetition ("a*a*b",
+ * "(a+)+"), or a repeated group with alternatives or optional parts
+ * ("(a|ab)*", "(a?a)+"). One repetition of a plain run stays linear per
+ * match attempt.
+ */
+function isBacktrackingProne(source: string): boolean {
+    // Escapes and character classes can't open groups or repeat anything
+    const simplified = source.replace(/\\./g, 'x').replace(/\[[^\]]*\]/g, 'x');
+    if ((simplified.match(REPETITION) ?? []).length > 1) {
+        return true;
+    }
+
+    const groups: boolean[] = [];   // Per open group: contains "|" or an optional part
+    for (let i = 0; i < simplified.length; i++) {
+        const char = simplified[i];
+        if (char === '(') {
+            groups.push(false);
+        } else if (char === ')') {
+            const branching = groups.pop() ?? false;
+            if (branching && new RegExp(`^(?:${REPETITION.source})`).test(simplified.slice(i + 1))) {
+                return true;
+            }
+            if (branching && groups.length > 0) {
+                groups[groups.length - 1] = true;
+            }
+        } else if (groups.length > 0 && (char === '|' || (char === '?' && !/[(*+}?]/.test(simplified[i - 1])))) {
+            groups[groups.length - 1] = true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Compile caller-supplied patterns, throwing on invalid, oversized or
+ * backtracking-prone input (callers may be anonymous)
+ */
+export function compileCustomPatterns(custom: string[] = []): RegExp[] {
+    if (custom.length > MAX_CUSTOM_PATTERNS) {
+        throw new Error(`At most ${MAX_CUSTOM_PATTERNS} custom patterns allowed`);
+    }
+
+    return custom.map(source => {
+        if (typeof source !== 'string' || !source || source.length > MAX_CUSTOM_PATTERN_LENGTH) {
+            throw new Error(`Custom patterns must be 1-${MAX_CUSTOM_PATTERN_LENGTH} characters`);
+        }
+        if (isBacktrackingProne(source) || /\\[1-9]|\\k</.test(source)) {
+            throw new Error(`Custom pattern may use at most one repetition and no backreferences: ${source}`);
+        }
+        try {
+            return new RegExp(source, 'g');
+        } catch {
+            throw new Error(`Invalid custom pattern: ${source}`);
+        }
+    });
+}
+
+/**
+ * Find every span of text that must not be translated
+ */
+export function findProtectedSpans(text: string, options: ProtectionOptions = {}): MaskSpan[] {
+    const enabled = new Set(options.patterns ?? PROTECTION_PATTERNS);
+    const spans: MaskSpan[] = [];
+
+    const addMatches = (regex: RegExp, kind: string, unwrap: boolean) => {
+        for (const match of text.matchAll(regex)) {
+            if (!match[0]) continue;
+            const start = match.index ?? 0;
+            spans.push({
+                start,
+                end: start + match[0].length,
+                replacement: unwrap ? match[1] ?? '' : match[0],
+                kind,
+            });
+        }
+    };
+
+    for (const { name, regex } of BUILTIN_PATTERNS) {
+        if (enabled.has(name)) {
+            addMatches(regex, name, name === 'dnt');
+        }
+    }
+
+    for (const regex of compileCustomPatterns(options.custom)) {
+        addMatches(regex, 'custom', false);
+    }
+
+    return spans;
+}
+
+// =============================================================================
+// PROTECT / RESTORE
+// =============================================================================
+
+/**
+ * Mask protected tokens with placeholders (numbered from `startIndex` when the
+ * text already carries placeholders of its own)
+ */
+export function protectText(text: string, options: ProtectionOptions = {}, startIndex: number = 0): ProtectedText {
+    return maskSpans(text, findProtectedSpans(text, options), startIndex);
+}
+
+/**
+ * Put protected tokens back and list any that were lost or duplicated
+ */
+export function restoreProtectedText(
+    translated: string,
+    placeholders: Placeholder[]
+): { text: string; errors: PlaceholderValidationError[] } {
+    const result = unmaskText(translated, placeholders);
+
+    const errors: PlaceholderValidationError[] = [
+        ...result.missing.map(p => ({ token: p.original, kind: p.kind, issue: 'missing' as const })),
+        ...result.duplicated.map(p => ({ token: p.original, kind: p.kind, issue: 'duplicated' as const })),
+    ];
+
+    return { text: result.text, errors };
+}
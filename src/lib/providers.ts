@@ -0,0 +1,460 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Translation Providers
+ * =============================================================================
+ * Machine translation behind one interface, tried in a configurable order:
+ *
+ * - `m2m100`      Workers AI m2m100 (fast, specialised, ignores context)
+ * - `llama-fast`  Workers AI Llama 3.1 8B
+ * - `llama`       Workers AI Llama 3.3 70B
+ * - `local`       Deterministic offline stand-in: dictionary word
+ *                 substitution, no network or AI binding needed
+ *
+ * The first provider that returns output within its timeout wins; a provider
+ * that throws, times out or returns nothing passes the text on to the next.
+ *
+ * Routing: a table of routes maps language pairs (`en-ja`, `en-*`, `*-ja`,
+ * `*-*`) and text lengths to ordered provider lists. The most specific pair
+ * wins, then the first route (in table order) whose length bounds match;
+ * texts no route matches use the default chain.
+ *
+ * Configuration (later wins):
+ * - Defaults below
+ * - Env: TRANSLATION_PROVIDERS (comma list), TRANSLATION_ROUTES (JSON routes)
+ * - KV: TRANSLATIONS_KV `config:providers` -> ProviderConfig JSON
+ * =============================================================================
+ */
+
+import { prepareDictionaryText, translateDictionaryText } from './dictionary';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type ProviderId = 'm2m100' | 'llama-fast' | 'llama' | 'local';
+
+export interface ProviderTranslation {
+    text: string;
+    from: string;
+    to: string;
+    context?: string;   // Domain hint or reference material for the prompt
+    temperature?: number;   // Sampling temperature for providers that sample
+}
+
+export interface ProviderCompletion {
+    system: string;
+    prompt: string;
+    temperature: number;
+    maxTokens: number;
+}
+
+export interface TranslationProvider {
+    id: ProviderId;
+    model: string;          // Reported in usage traces
+    remote: boolean;        // Calls Workers AI (metered against the AI quota)
+    usesContext: boolean;   // Reads `context` rather than ignoring it
+    sampled: boolean;       // Output varies with `temperature`
+    supports(from: string, to: string): boolean;
+    translate(input: ProviderTranslation): Promise<string | null>;
+    complete?(input: ProviderCompletion): Promise<string | null>;
+}
+
+/**
+ * Runs a Workers AI model (index.ts wraps AI.run with usage tracing)
+ */
+export type ModelRunner = (model: string, input: Record<string, unknown>, assist?: boolean) => Promise<unknown>;
+
+export interface ProviderRoute {
+    pair: string;               // `from-to`, either side may be `*`
+    minLength?: number;         // Characters, inclusive
+    maxLength?: number;         // Characters, inclusive
+    providers: ProviderId[];
+    timeoutMs?: number;         // Per provider attempt (default: config timeoutMs)
+}
+
+export interface ProviderConfig {
+    chain: ProviderId[];        // Default translation order
+    routes: ProviderRoute[];
+    assist: ProviderId[];       // Order for JSON/analysis prompts
+    timeoutMs: number;          // Default per-attempt timeout
+}
+
+export interface ResolvedRoute {
+    chain: TranslationProvider[];
+    timeoutMs: number;
+}
+
+export interface ProviderEnv {
+    AI?: { run(model: string, input: any): Promise<any> };
+    TRANSLATIONS_KV?: KVNamespace;
+    TRANSLATION_PROVIDERS?: string;
+    TRANSLATION_ROUTES?: string;
+}
+
+export const PROVIDER_IDS: ProviderId[] = ['m2m100', 'llama-fast', 'llama', 'local'];
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+    chain: ['m2m100', 'llama-fast', 'llama'],
+    routes: [
+        // m2m100 renders Japanese idiom literally
+        { pair: 'ja-en', providers: ['llama', 'llama-fast', 'm2m100'] },
+        { pair: 'en-ja', providers: ['llama', 'llama-fast', 'm2m100'] },
+    ],
+    assist: ['llama-fast', 'llama'],
+    timeoutMs: 20_000,
+};
+
+export const PROVIDER_MODELS = {
+    m2m100: '@cf/meta/m2m100-1.2b',
+    'llama-fast': '@cf/meta/llama-3.1-8b-instruct-fast',
+    llama: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+    local: 'local/dictionary',
+} as const satisfies Record<ProviderId, string>;
+
+const CONFIG_KEY = 'config:providers';
+
+const PAIR_PATTERN = /^([a-z]{2,3}|\*)-([a-z]{2,3}|\*)$/;
+
+const MAX_TIMEOUT_MS = 120_000;
+
+// Language code mapping for m2m100
+const M2M100_LANG_CODES: Record<string, string> = {
+    en: 'en', es: 'es', fr: 'fr', de: 'de', it: 'it', pt: 'pt',
+    zh: 'zh', ja: 'ja', ko: 'ko', ar: 'ar', ru: 'ru', hi: 'hi',
+    nl: 'nl', pl: 'pl', tr: 'tr', vi: 'vi', th: 'th', id: 'id',
+    cs: 'cs', ro: 'ro', hu: 'hu', el: 'el', sv: 'sv', da: 'da',
+    fi: 'fi', no: 'nb', uk: 'uk', he: 'he', bg: 'bg', hr: 'hr',
+};
+
+// =============================================================================
+// PROVIDERS
+// =============================================================================
+
+export function m2m100Provider(run: ModelRunner): TranslationProvider {
+    return {
+        id: 'm2m100',
+        model: PROVIDER_MODELS.m2m100,
+        remote: true,
+        usesContext: false,
+        sampled: false,
+        // Needs a known source: 'auto' goes to a provider that can detect it
+        supports: (from, to) => !!M2M100_LANG_CODES[from] && !!M2M100_LANG_CODES[to],
+        async translate({ text, from, to }) {
+            const result = await run(PROVIDER_MODELS.m2m100, {
+                text,
+                source_lang: M2M100_LANG_CODES[from],
+                target_lang: M2M100_LANG_CODES[to],
+            }) as { translated_text?: string };
+            return result?.translated_text || null;
+        },
+    };
+}
+
+export function llamaProvider(id: 'llama-fast' | 'llama', run: ModelRunner): TranslationProvider {
+    const model = PROVIDER_MODELS[id];
+
+    const complete = async (input: ProviderCompletion, assist: boolean): Promise<string | null> => {
+        const result = await run(model, {
+            messages: [
+                { role: 'system', content: input.system },
+                { role: 'user', content: input.prompt },
+            ],
+            max_tokens: input.maxTokens,
+            temperature: input.temperature,
+        }, assist) as { response?: string };
+        return result?.response?.trim() || null;
+    };
+
+    return {
+        id,
+        model,
+        remote: true,
+        usesContext: true,
+        sampled: true,
+        supports: () => true,
+        translate: ({ text, from, to, context, temperature }) => complete({
+            system: translationPrompt(from, to, context),
+            prompt: text,
+            temperature: temperature ?? 0.3,
+            maxTokens: 2000,
+        }, false),
+        complete: (input) => complete(input, true),
+    };
+}
+
+/**
+ * Offline provider: replaces words found in the dictionary (other source
+ * languages through the reverse index) and leaves everything else as it was.
+ * Same input, same output.
+ */
+export function localProvider(): TranslationProvider {
+    return {
+        id: 'local',
+        model: PROVIDER_MODELS.local,
+        remote: false,
+        usesContext: false,
+        sampled: false,
+        supports: () => true,
+        async translate({ text, from, to }) {
+            return translateDictionaryText(prepareDictionaryText(text, from), to, { partial: true }).text ?? text;
+        },
+    };
+}
+
+/**
+ * The provider a model id belongs to (ids reported in responses and traces)
+ */
+export function providerForModel(model: string): ProviderId | null {
+    return PROVIDER_IDS.find(id => PROVIDER_MODELS[id] === model) ?? null;
+}
+
+function translationPrompt(from: string, to: string, context?: string): string {
+    const source = from === 'auto' ? 'the detected language' : from;
+    return context
+        ? `You are a professional translator. Translate the following text from ${source} to ${to}. Context: ${context}. Return ONLY the translated text, nothing else.`
+        : `You are a professional translator. Translate the following text from ${source} to ${to}. Return ONLY the translated text, nothing else.`;
+}
+
+/**
+ * Every provider available in this environment. Without an AI binding only
+ * `local` is.
+ */
+export function createProviders(run: ModelRunner | null): Map<ProviderId, TranslationProvider> {
+    const providers = new Map<ProviderId, TranslationProvider>();
+    if (run) {
+        providers.set('m2m100', m2m100Provider(run));
+        providers.set('llama-fast', llamaProvider('llama-fast', run));
+        providers.set('llama', llamaProvider('llama', run));
+    }
+    providers.set('local', localProvider());
+    return providers;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+function parseProviderList(value: unknown, field: string): ProviderId[] {
+    const ids = typeof value === 'string' ? value.split(',').map(id => id.trim()).filter(Boolean) : value;
+    if (!Array.isArray(ids) || ids.length === 0) {
+        throw new Error(`${field} must be a non-empty list of: ${PROVIDER_IDS.join(', ')}`);
+    }
+    const unknown = ids.filter(id => !PROVIDER_IDS.includes(id));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown providers in ${field}: ${unknown.join(', ')}`);
+    }
+    return [...new Set(ids as ProviderId[])];
+}
+
+function parseOptionalInt(value: unknown, field: string, min: number, max: number): number | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+        throw new Error(`${field} must be an integer between ${min} and ${max}`);
+    }
+    return value as number;
+}
+
+function parseRoute(input: any, field: string): ProviderRoute {
+    if (!input || typeof input !== 'object') {
+        throw new Error(`${field} must be an object`);
+    }
+    if (typeof input.pair !== 'string' || !PAIR_PATTERN.test(input.pair)) {
+        throw new Error(`${field}.pair must look like "en-ja", "en-*" or "*-ja"`);
+    }
+
+    const route: ProviderRoute = {
+        pair: input.pair,
+        minLength: parseOptionalInt(input.minLength, `${field}.minLength`, 0, Number.MAX_SAFE_INTEGER),
+        maxLength: parseOptionalInt(input.maxLength, `${field}.maxLength`, 0, Number.MAX_SAFE_INTEGER),
+        providers: parseProviderList(input.providers, `${field}.providers`),
+        timeoutMs: parseOptionalInt(input.timeoutMs, `${field}.timeoutMs`, 100, MAX_TIMEOUT_MS),
+    };
+    if (route.minLength !== undefined && route.maxLength !== undefined && route.minLength > route.maxLength) {
+        throw new Error(`${field}.minLength must not exceed maxLength`);
+    }
+    return route;
+}
+
+/**
+ * Validate a (partial) provider config, throwing on unknown providers or
+ * malformed routes
+ */
+export function parseProviderConfig(input: any): Partial<ProviderConfig> {
+    if (!input || typeof input !== 'object') {
+        throw new Error('Provider config must be an object');
+    }
+
+    const config: Partial<ProviderConfig> = {};
+    if (input.chain !== undefined) {
+        config.chain = parseProviderList(input.chain, 'chain');
+    }
+    if (input.assist !== undefined) {
+        config.assist = parseProviderList(input.assist, 'assist');
+    }
+    if (input.routes !== undefined) {
+        if (!Array.isArray(input.routes)) {
+            throw new Error('routes must be an array');
+        }
+        config.routes = input.routes.map((route: unknown, i: number) => parseRoute(route, `routes[${i}]`));
+    }
+    if (input.timeoutMs !== undefined) {
+        config.timeoutMs = parseOptionalInt(input.timeoutMs, 'timeoutMs', 100, MAX_TIMEOUT_MS);
+    }
+    return config;
+}
+
+/**
+ * Defaults, overridden by env vars, overridden by the KV document. A route
+ * table replaces the one before it rather than merging with it.
+ */
+export async function getProviderConfig(env: ProviderEnv): Promise<ProviderConfig> {
+    const config: ProviderConfig = { ...DEFAULT_PROVIDER_CONFIG };
+
+    try {
+        if (env.TRANSLATION_PROVIDERS) {
+            config.chain = parseProviderList(env.TRANSLATION_PROVIDERS, 'TRANSLATION_PROVIDERS');
+        }
+        if (env.TRANSLATION_ROUTES) {
+            Object.assign(config, parseProviderConfig({ routes: JSON.parse(env.TRANSLATION_ROUTES) }));
+        }
+    } catch (err: any) {
+        console.warn('[PROVIDERS] Ignoring invalid env config:', err.message);
+    }
+
+    const stored = await env.TRANSLATIONS_KV?.get<Partial<ProviderConfig>>(CONFIG_KEY, 'json');
+    return stored ? { ...config, ...stored } : config;
+}
+
+/**
+ * Merge updates into the stored KV document
+ */
+export async function setProviderConfig(kv: KVNamespace, updates: Partial<ProviderConfig>): Promise<Partial<ProviderConfig>> {
+    const current = await kv.get<Partial<ProviderConfig>>(CONFIG_KEY, 'json') ?? {};
+    const updated = { ...current, ...updates };
+    await kv.put(CONFIG_KEY, JSON.stringify(updated));
+    return updated;
+}
+
+// =============================================================================
+// ROUTING
+// =============================================================================
+
+function pairSpecificity(pair: string, from: string, to: string): number {
+    const [routeFrom, routeTo] = pair.split('-');
+    if (routeFrom !== '*' && routeFrom !== from) return -1;
+    if (routeTo !== '*' && routeTo !== to) return -1;
+    return (routeFrom === '*' ? 0 : 2) + (routeTo === '*' ? 0 : 1);
+}
+
+/**
+ * The route for a pair and text length, or null for the default chain
+ */
+export function matchRoute(config: ProviderConfig, from: string, to: string, length: number): ProviderRoute | null {
+    let best: ProviderRoute | null = null;
+    let bestSpecificity = -1;
+
+    for (const route of config.routes) {
+        const specificity = pairSpecificity(route.pair, from, to);
+        const fits = (route.minLength === undefined || length >= route.minLength)
+            && (route.maxLength === undefined || length <= route.maxLength);
+        if (fits && specificity > bestSpecificity) {
+            best = route;
+            bestSpecificity = specificity;
+        }
+    }
+    return best;
+}
+
+/**
+ * Providers to try for a pair and text length, with the per-attempt
+ * timeout. Providers that are unavailable or don't support the pair are
+ * dropped; `local` is the last resort when nothing else is left.
+ */
+export function resolveRoute(
+    config: ProviderConfig,
+    providers: Map<ProviderId, TranslationProvider>,
+    from: string,
+    to: string,
+    length: number
+): ResolvedRoute {
+    const route = matchRoute(config, from, to, length);
+    const chain = (route?.providers ?? config.chain)
+        .map(id => providers.get(id))
+        .filter((provider): provider is TranslationProvider => !!provider && provider.supports(from, to));
+
+    return {
+        chain: chain.length > 0 ? chain : [providers.get('local') ?? localProvider()],
+        timeoutMs: route?.timeoutMs ?? config.timeoutMs,
+    };
+}
+
+function withTimeout<T>(work: Promise<T>, ms: number, label: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([work, timeout]).finally(() => {
+        if (timer !== undefined) clearTimeout(timer);
+    });
+}
+
+/**
+ * Translate with the first provider in the route that produces output in
+ * time. Falls back to the input text when every provider comes back empty,
+ * and rethrows the last error when every provider failed.
+ */
+export async function translateWithChain(
+    route: ResolvedRoute,
+    input: ProviderTranslation
+): Promise<{ translated: string; provider: ProviderId; model: string }> {
+    const { chain, timeoutMs } = route;
+    let lastError: unknown = null;
+    let failures = 0;
+
+    for (const provider of chain) {
+        try {
+            const translated = await withTimeout(provider.translate(input), timeoutMs, provider.id);
+            if (translated) {
+                return { translated, provider: provider.id, model: provider.model };
+            }
+        } catch (err) {
+            console.warn(`[PROVIDERS] ${provider.id} failed:`, err);
+            lastError = err;
+            failures++;
+        }
+    }
+
+    if (chain.length > 0 && failures === chain.length) {
+        throw lastError;
+    }
+    const last = chain.at(-1) ?? localProvider();
+    return { translated: input.text, provider: last.id, model: last.model };
+}
+
+/**
+ * Completion from the first provider whose response `parse` accepts (a
+ * throwing parse moves on to the next provider), or null
+ */
+export async function completeWithChain<T>(
+    chain: TranslationProvider[],
+    input: ProviderCompletion,
+    parse: (response: string) => T,
+    timeoutMs: number = DEFAULT_PROVIDER_CONFIG.timeoutMs
+): Promise<T | null> {
+    for (const provider of chain) {
+        if (!provider.complete) {
+            continue;
+        }
+        try {
+            const response = await withTimeout(provider.complete(input), timeoutMs, provider.id);
+            if (response) {
+                return parse(response);
+            }
+        } catch (err) {
+            console.warn(`[PROVIDERS] ${provider.id} completion failed:`, err);
+        }
+    }
+    return null;
+}
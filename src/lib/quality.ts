@@ -0,0 +1,323 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Translation Quality Estimation
+ * =============================================================================
+ * Cheap checks that flag translations likely to be wrong, without a reference
+ * translation:
+ *
+ * - back_translation  The output translated back to the source language should
+ *                     resemble the original (character trigram similarity)
+ * - length_ratio      Output length far off the expected ratio for the scripts
+ * - untranslated      Source words copied through unchanged
+ * - numbers           Numbers missing from or added to the output
+ * - placeholders      Protected tokens (see placeholders.ts) lost or duplicated
+ * - script            Output not written in the target language's script
+ *
+ * Errors fail the result outright; warnings only lower its score.
+ * =============================================================================
+ */
+
+import { protectText } from './placeholders';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type QualityIssueType = 'back_translation' | 'length_ratio' | 'untranslated' | 'numbers' | 'placeholders' | 'script';
+
+export interface QualityIssue {
+    type: QualityIssueType;
+    severity: 'warning' | 'error';
+    message: string;
+    tokens?: string[];
+}
+
+export interface QualityReport {
+    score: number;              // 0-1
+    passed: boolean;            // score >= QA_MIN_SCORE and no errors
+    issues: QualityIssue[];
+    similarity?: number;        // Back-translation vs original (0-1)
+    back_translation?: string;
+    length_ratio: number;
+}
+
+export interface QualityInput {
+    original: string;
+    translated: string;
+    from: string;
+    to: string;
+    backTranslation?: string | null;
+}
+
+type Script = 'latin' | 'cyrillic' | 'greek' | 'arabic' | 'hebrew' | 'thai' | 'devanagari' | 'hangul' | 'kana' | 'han';
+
+// Results scoring below this are neither cached nor learned from
+export const QA_MIN_SCORE = 0.6;
+
+const SEVERITY_PENALTY = { error: 0.3, warning: 0.1 } as const;
+
+// Back-translation similarity thresholds
+const SIMILARITY_ERROR = 0.3;
+const SIMILARITY_WARNING = 0.55;
+
+// Texts shorter than this are too short for a meaningful length ratio
+const MIN_RATIO_LENGTH = 12;
+
+const SCRIPT_PATTERNS: Array<[Script, RegExp]> = [
+    ['latin', /\p{Script=Latin}/u],
+    ['cyrillic', /\p{Script=Cyrillic}/u],
+    ['greek', /\p{Script=Greek}/u],
+    ['arabic', /\p{Script=Arabic}/u],
+    ['hebrew', /\p{Script=Hebrew}/u],
+    ['thai', /\p{Script=Thai}/u],
+    ['devanagari', /\p{Script=Devanagari}/u],
+    ['hangul', /\p{Script=Hangul}/u],
+    ['kana', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+    ['han', /\p{Script=Han}/u],
+];
+
+// Scripts a language is written in (anything unlisted: Latin)
+const LANGUAGE_SCRIPTS: Record<string, Script[]> = {
+    ru: ['cyrillic'], uk: ['cyrillic'], bg: ['cyrillic'], sr: ['cyrillic', 'latin'],
+    el: ['greek'], ar: ['arabic'], fa: ['arabic'], ur: ['arabic'], he: ['hebrew'],
+    th: ['thai'], hi: ['devanagari'], mr: ['devanagari'], ne: ['devanagari'],
+    ko: ['hangul', 'han'], ja: ['kana', 'han'], zh: ['han'],
+};
+
+// Scripts that pack a word into one or two characters
+const DENSE_SCRIPTS: Script[] = ['han', 'kana', 'hangul'];
+
+// =============================================================================
+// TEXT HELPERS
+// =============================================================================
+
+function normalise(text: string): string {
+    return text.toLowerCase().normalize('NFKC').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function trigrams(text: string): Map<string, number> {
+    const padded = ` ${normalise(text)} `;
+    const grams = new Map<string, number>();
+    for (let i = 0; i + 3 <= padded.length; i++) {
+        const gram = padded.slice(i, i + 3);
+        grams.set(gram, (grams.get(gram) ?? 0) + 1);
+    }
+    return grams;
+}
+
+/**
+ * Dice coefficient over character trigrams (1 = identical, 0 = nothing shared)
+ */
+export function textSimilarity(a: string, b: string): number {
+    const left = trigrams(a);
+    const right = trigrams(b);
+    let shared = 0;
+    let total = 0;
+
+    for (const [gram, count] of left) {
+        shared += Math.min(count, right.get(gram) ?? 0);
+        total += count;
+    }
+    for (const count of right.values()) {
+        total += count;
+    }
+    return total === 0 ? 1 : (2 * shared) / total;
+}
+
+/**
+ * The script most letters of a text are written in, or null without letters
+ */
+export function dominantScript(text: string): Script | null {
+    const counts = new Map<Script, number>();
+    for (const char of text) {
+        const script = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(char))?.[0];
+        if (script) {
+            counts.set(script, (counts.get(script) ?? 0) + 1);
+        }
+    }
+    return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+function languageScripts(language: string): Script[] {
+    return LANGUAGE_SCRIPTS[language.split('-')[0]] ?? ['latin'];
+}
+
+function withoutProtectedTokens(text: string): string {
+    const { text: masked, placeholders } = protectText(text);
+    return placeholders.reduce((result, p) => result.replace(p.token, ' '), masked);
+}
+
+function numbers(text: string): string[] {
+    return (text.match(/\d+(?:[.,]\d+)*/g) ?? []).map(n => n.replace(/[.,]/g, ''));
+}
+
+function multisetDifference(a: string[], b: string[]): string[] {
+    const remaining = [...b];
+    return a.filter(item => {
+        const i = remaining.indexOf(item);
+        if (i === -1) return true;
+        remaining.splice(i, 1);
+        return false;
+    });
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+function checkLengthRatio(original: string, translated: string, from: string, to: string): { ratio: number; issue?: QualityIssue } {
+    const ratio = original.length > 0 ? translated.length / original.length : 1;
+    if (original.length < MIN_RATIO_LENGTH) {
+        return { ratio };
+    }
+
+    const dense = (language: string) => languageScripts(language).some(script => DENSE_SCRIPTS.includes(script));
+    const [min, max] = dense(from) !== dense(to) ? [0.15, 4] : [0.5, 2];
+
+    if (ratio >= min && ratio <= max) {
+        return { ratio };
+    }
+    const severity = ratio < min / 2 || ratio > max * 2 ? 'error' : 'warning';
+    return {
+        ratio,
+        issue: { type: 'length_ratio', severity, message: `Output is ${ratio.toFixed(2)}x the source length (expected ${min}-${max}x)` },
+    };
+}
+
+function checkUntranslated(original: string, translated: string, from: string, to: string): QualityIssue | undefined {
+    if (from === to) {
+        return undefined;
+    }
+
+    // Names, acronyms and short words are routinely kept as-is
+    const words = [...new Set(withoutProtectedTokens(original).match(/\p{L}{4,}/gu) ?? [])]
+        .filter(word => !/^\p{Lu}/u.test(word));
+    if (words.length === 0) {
+        return undefined;
+    }
+
+    const output = ` ${normalise(withoutProtectedTokens(translated))} `;
+    const copied = words.filter(word => output.includes(` ${normalise(word)} `));
+    if (copied.length === 0) {
+        return undefined;
+    }
+
+    const share = copied.length / words.length;
+    if (share < 0.2 && copied.length < 3) {
+        return undefined;
+    }
+    return {
+        type: 'untranslated',
+        severity: share > 0.5 ? 'error' : 'warning',
+        message: `${copied.length} of ${words.length} source words appear unchanged in the output`,
+        tokens: copied,
+    };
+}
+
+function checkNumbers(original: string, translated: string): QualityIssue | undefined {
+    const source = numbers(withoutProtectedTokens(original));
+    const target = numbers(withoutProtectedTokens(translated));
+    const missing = multisetDifference(source, target);
+    const added = multisetDifference(target, source);
+
+    if (missing.length === 0 && added.length === 0) {
+        return undefined;
+    }
+    return {
+        type: 'numbers',
+        severity: 'warning',
+        message: [
+            missing.length > 0 ? `missing ${missing.join(', ')}` : '',
+            added.length > 0 ? `added ${added.join(', ')}` : '',
+        ].filter(Boolean).join('; '),
+        tokens: [...missing, ...added],
+    };
+}
+
+function checkPlaceholders(original: string, translated: string): QualityIssue | undefined {
+    const expected = protectText(original).placeholders.map(p => p.replacement);
+    const found = expected.filter(token => translated.includes(token));
+    const lost = multisetDifference(expected, found);
+    const duplicated = [...new Set(expected)].filter(token =>
+        translated.split(token).length - 1 > expected.filter(t => t === token).length
+    );
+
+    if (lost.length === 0 && duplicated.length === 0) {
+        return undefined;
+    }
+    return {
+        type: 'placeholders',
+        severity: 'error',
+        message: 'Protected tokens were lost or duplicated',
+        tokens: [...lost, ...duplicated],
+    };
+}
+
+function checkScript(translated: string, to: string): QualityIssue | undefined {
+    const script = dominantScript(withoutProtectedTokens(translated));
+    const expected = languageScripts(to);
+
+    if (!script || expected.includes(script)) {
+        return undefined;
+    }
+    return {
+        type: 'script',
+        severity: 'error',
+        message: `Output is mostly ${script} script, expected ${expected.join(' or ')} for ${to}`,
+    };
+}
+
+function checkBackTranslation(original: string, backTranslation: string): { similarity: number; issue?: QualityIssue } {
+    const similarity = textSimilarity(original, backTranslation);
+    if (similarity >= SIMILARITY_WARNING) {
+        return { similarity };
+    }
+    return {
+        similarity,
+        issue: {
+            type: 'back_translation',
+            severity: similarity < SIMILARITY_ERROR ? 'error' : 'warning',
+            message: `Back-translation only ${Math.round(similarity * 100)}% similar to the source`,
+        },
+    };
+}
+
+// =============================================================================
+// ESTIMATION
+// =============================================================================
+
+/**
+ * Score a translation. The back-translation similarity (when given) is the
+ * base score; each issue then subtracts its severity penalty.
+ */
+export function estimateQuality(input: QualityInput): QualityReport {
+    const { original, translated, from, to, backTranslation } = input;
+    const issues: QualityIssue[] = [];
+
+    const back = backTranslation ? checkBackTranslation(original, backTranslation) : null;
+    const length = checkLengthRatio(original, translated, from, to);
+
+    for (const issue of [
+        back?.issue,
+        length.issue,
+        checkUntranslated(original, translated, from, to),
+        checkNumbers(original, translated),
+        checkPlaceholders(original, translated),
+        checkScript(translated, to),
+    ]) {
+        if (issue) issues.push(issue);
+    }
+
+    const base = back ? Math.min(1, back.similarity / SIMILARITY_WARNING) : 1;
+    const penalty = issues.reduce((sum, issue) => sum + SEVERITY_PENALTY[issue.severity], 0);
+    const score = Math.round(Math.max(0, base - penalty) * 100) / 100;
+
+    return {
+        score,
+        passed: score >= QA_MIN_SCORE && !issues.some(issue => issue.severity === 'error'),
+        issues,
+        similarity: back ? Math.round(back.similarity * 100) / 100 : undefined,
+        back_translation: backTranslation ?? undefined,
+        length_ratio: Math.round(length.ratio * 100) / 100,
+    };
+}
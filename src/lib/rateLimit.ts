@@ -0,0 +1,361 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Rate Limits & Usage Quotas
+ * =============================================================================
+ * Per-caller token buckets (requests per minute) and monthly character
+ * quotas, counted separately for dictionary lookups and Workers AI calls.
+ * Callers are API keys, or the client IP for anonymous traffic.
+ *
+ * Storage Structure (KV: RATE_LIMIT_KV, in-memory when unbound):
+ * - `bucket:{subject}` -> BucketState JSON
+ * - `quota:{subject}:{YYYY-MM}` -> QuotaUsage JSON
+ *
+ * KV is eventually consistent, so limits are approximate across locations.
+ * =============================================================================
+ */
+
+import type { Context, MiddlewareHandler } from 'hono';
+import type { Principal } from './auth';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface RateLimits {
+    requestsPerMinute: number;        // Bucket size; refills evenly over a minute
+    aiCharsPerMonth: number;          // Characters sent to Workers AI
+    dictionaryCharsPerMonth: number;  // Characters answered by the dictionary
+}
+
+export interface BucketState {
+    tokens: number;
+    updatedAt: number;  // ms since epoch
+}
+
+export interface BucketResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetSeconds: number;   // Until the bucket is full again
+    retryAfter: number;     // Until the next request is allowed (0 if allowed)
+}
+
+export interface QuotaUsage {
+    month: string;
+    aiChars: number;
+    dictionaryChars: number;
+    requests: number;
+}
+
+// Characters metered while handling one request
+export interface UsageMeter {
+    ai: number;
+    dictionary: number;
+    aiQuotaExceeded?: boolean;  // Only enforced once a model is about to be called
+}
+
+/**
+ * Thrown by meterUsage when a caller without AI quota left reaches a model
+ */
+export class QuotaExceededError extends Error {
+    constructor(readonly quota: 'ai' | 'dictionary', readonly resetsAt: Date) {
+        super('Monthly quota exceeded');
+    }
+}
+
+export interface CounterStore {
+    get<T>(key: string): Promise<T | null>;
+    put(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+}
+
+export interface RateLimitEnv {
+    RATE_LIMIT_KV?: KVNamespace;
+}
+
+export const ANONYMOUS_LIMITS: RateLimits = {
+    requestsPerMinute: 20,
+    aiCharsPerMonth: 50_000,
+    dictionaryCharsPerMonth: 500_000,
+};
+
+export const API_KEY_LIMITS: RateLimits = {
+    requestsPerMinute: 120,
+    aiCharsPerMonth: 2_000_000,
+    dictionaryCharsPerMonth: 20_000_000,
+};
+
+const UNLIMITED: RateLimits = {
+    requestsPerMinute: Infinity,
+    aiCharsPerMonth: Infinity,
+    dictionaryCharsPerMonth: Infinity,
+};
+
+// KV's minimum expiration
+const MIN_TTL_SECONDS = 60;
+
+// =============================================================================
+// COUNTER STORES
+// =============================================================================
+
+/**
+ * Per-isolate store used when RATE_LIMIT_KV isn't bound (local dev, tests)
+ */
+export class MemoryCounterStore implements CounterStore {
+    private entries = new Map<string, { value: unknown; expires: number }>();
+
+    async get<T>(key: string): Promise<T | null> {
+        const entry = this.entries.get(key);
+        if (!entry || entry.expires <= Date.now()) {
+            this.entries.delete(key);
+            return null;
+        }
+        return entry.value as T;
+    }
+
+    async put(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+        this.entries.set(key, { value, expires: Date.now() + ttlSeconds * 1000 });
+    }
+}
+
+export function kvCounterStore(kv: KVNamespace): CounterStore {
+    return {
+        get: <T>(key: string) => kv.get<T>(key, 'json'),
+        put: (key, value, ttlSeconds) =>
+            kv.put(key, JSON.stringify(value), { expirationTtl: Math.max(Math.ceil(ttlSeconds), MIN_TTL_SECONDS) }),
+    };
+}
+
+const memoryStore = new MemoryCounterStore();
+
+export function counterStore(env: RateLimitEnv): CounterStore {
+    return env.RATE_LIMIT_KV ? kvCounterStore(env.RATE_LIMIT_KV) : memoryStore;
+}
+
+// =============================================================================
+// LIMITS
+// =============================================================================
+
+/**
+ * Effective limits for a caller: root is unlimited, keys may override defaults
+ */
+export function resolveLimits(principal: Principal): RateLimits {
+    if (principal.id === 'root') {
+        return UNLIMITED;
+    }
+    const defaults = principal.id === 'anonymous' ? ANONYMOUS_LIMITS : API_KEY_LIMITS;
+    return { ...defaults, ...principal.limits };
+}
+
+/**
+ * Validate per-key limit overrides, throwing on bad values
+ */
+export function parseLimits(limits: unknown): Partial<RateLimits> | undefined {
+    if (limits === undefined || limits === null) {
+        return undefined;
+    }
+    if (typeof limits !== 'object' || Array.isArray(limits)) {
+        throw new Error('limits must be an object');
+    }
+
+    const parsed: Partial<RateLimits> = {};
+    for (const [name, value] of Object.entries(limits)) {
+        if (!(name in API_KEY_LIMITS)) {
+            throw new Error(`Unknown limit: ${name}`);
+        }
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+            throw new Error(`${name} must be a positive integer`);
+        }
+        parsed[name as keyof RateLimits] = value;
+    }
+    return parsed;
+}
+
+/**
+ * Counter key for a caller: the key id, or the client IP when anonymous
+ */
+export function rateLimitSubject(c: Context, principal: Principal): string {
+    if (principal.id !== 'anonymous') {
+        return `key:${principal.id}`;
+    }
+    return `ip:${c.req.header('CF-Connecting-IP') || c.req.header('X-Forwarded-For')?.split(',')[0].trim() || 'unknown'}`;
+}
+
+// =============================================================================
+// TOKEN BUCKET
+// =============================================================================
+
+/**
+ * Refill a bucket up to `now` and try to take one token
+ */
+export function takeToken(state: BucketState | null, capacity: number, now: number, take: number = 1): {
+    state: BucketState;
+    result: BucketResult;
+} {
+    const refillPerSecond = capacity / 60;
+    const previous = state ?? { tokens: capacity, updatedAt: now };
+    const tokens = Math.min(capacity, previous.tokens + (Math.max(now - previous.updatedAt, 0) / 1000) * refillPerSecond);
+    const allowed = tokens >= take;
+    const left = allowed ? tokens - take : tokens;
+
+    return {
+        state: { tokens: left, updatedAt: now },
+        result: {
+            allowed,
+            limit: capacity,
+            remaining: Math.floor(left),
+            resetSeconds: Math.ceil((capacity - left) / refillPerSecond),
+            retryAfter: allowed ? 0 : Math.ceil((take - left) / refillPerSecond),
+        },
+    };
+}
+
+async function useBucket(store: CounterStore, subject: string, capacity: number, now: number, take: number): Promise<BucketResult> {
+    if (capacity === Infinity) {
+        return { allowed: true, limit: capacity, remaining: capacity, resetSeconds: 0, retryAfter: 0 };
+    }
+
+    const key = `bucket:${subject}`;
+    const { state, result } = takeToken(await store.get<BucketState>(key), capacity, now, take);
+    if (take > 0) {
+        await store.put(key, state, 120);
+    }
+    return result;
+}
+
+export function consumeToken(store: CounterStore, subject: string, capacity: number, now: number = Date.now()): Promise<BucketResult> {
+    return useBucket(store, subject, capacity, now, 1);
+}
+
+/**
+ * Current bucket state without taking a token
+ */
+export function peekBucket(store: CounterStore, subject: string, capacity: number, now: number = Date.now()): Promise<BucketResult> {
+    return useBucket(store, subject, capacity, now, 0);
+}
+
+// =============================================================================
+// MONTHLY QUOTAS
+// =============================================================================
+
+export function quotaMonth(now: number): string {
+    return new Date(now).toISOString().slice(0, 7);
+}
+
+/**
+ * Start of the next calendar month (UTC), when quotas reset
+ */
+export function quotaResetsAt(now: number): Date {
+    const date = new Date(now);
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+export async function getQuotaUsage(store: CounterStore, subject: string, now: number = Date.now()): Promise<QuotaUsage> {
+    const month = quotaMonth(now);
+    return (await store.get<QuotaUsage>(`quota:${subject}:${month}`)) ?? { month, aiChars: 0, dictionaryChars: 0, requests: 0 };
+}
+
+export async function addQuotaUsage(
+    store: CounterStore,
+    subject: string,
+    meter: UsageMeter,
+    now: number = Date.now()
+): Promise<QuotaUsage> {
+    const usage = await getQuotaUsage(store, subject, now);
+    const updated: QuotaUsage = {
+        month: usage.month,
+        aiChars: usage.aiChars + meter.ai,
+        dictionaryChars: usage.dictionaryChars + meter.dictionary,
+        requests: usage.requests + 1,
+    };
+
+    // Keep the counter a few days past the month end for /quota lookups
+    const ttl = (quotaResetsAt(now).getTime() - now) / 1000 + 3 * 86400;
+    await store.put(`quota:${subject}:${usage.month}`, updated, ttl);
+    return updated;
+}
+
+/**
+ * Count characters against the current request's quota (no-op outside
+ * rateLimit). Throws QuotaExceededError for AI characters once the AI quota
+ * is used up, so requests the dictionary or cache can answer still pass.
+ */
+export function meterUsage(c: Context, kind: 'ai' | 'dictionary', chars: number): void {
+    const meter = c.get('usage') as UsageMeter | undefined;
+    if (!meter) {
+        return;
+    }
+    if (kind === 'ai' && meter.aiQuotaExceeded) {
+        throw new QuotaExceededError('ai', quotaResetsAt(Date.now()));
+    }
+    meter[kind] += chars;
+}
+
+/**
+ * 429 response for an exhausted monthly quota
+ */
+export function quotaExceededResponse(c: Context, err: QuotaExceededError, headers: Record<string, string> = {}): Response {
+    return c.json(
+        { error: err.message, quota: err.quota, resets_at: err.resetsAt.toISOString() },
+        429,
+        { ...headers, 'Retry-After': String(Math.max(Math.ceil((err.resetsAt.getTime() - Date.now()) / 1000), 0)) }
+    );
+}
+
+// =============================================================================
+// MIDDLEWARE
+// =============================================================================
+
+/**
+ * Rate limit and quota check for routes that spend dictionary or AI budget.
+ * Must run after requireScope, which sets the principal.
+ */
+export function rateLimit<E extends { Bindings: RateLimitEnv; Variables: { principal: Principal; usage: UsageMeter } }>(): MiddlewareHandler<E> {
+    return async (c, next) => {
+        const principal = c.get('principal');
+        const limits = resolveLimits(principal);
+        const store = counterStore(c.env);
+        const subject = rateLimitSubject(c, principal);
+        const now = Date.now();
+
+        const bucket = await consumeToken(store, subject, limits.requestsPerMinute, now);
+        const headers = rateLimitHeaders(bucket);
+
+        if (!bucket.allowed) {
+            return c.json(
+                { error: 'Rate limit exceeded', limit: bucket.limit, retry_after: bucket.retryAfter },
+                429,
+                { ...headers, 'Retry-After': String(bucket.retryAfter) }
+            );
+        }
+
+        // The AI quota is checked when a model is called (see meterUsage)
+        const usage = await getQuotaUsage(store, subject, now);
+        if (usage.dictionaryChars >= limits.dictionaryCharsPerMonth) {
+            return quotaExceededResponse(c, new QuotaExceededError('dictionary', quotaResetsAt(now)), headers);
+        }
+
+        const meter: UsageMeter = { ai: 0, dictionary: 0, aiQuotaExceeded: usage.aiChars >= limits.aiCharsPerMonth };
+        c.set('usage', meter);
+
+        await next();
+
+        for (const [name, value] of Object.entries(headers)) {
+            c.res.headers.set(name, value);
+        }
+
+        if (meter.ai > 0 || meter.dictionary > 0) {
+            await addQuotaUsage(store, subject, meter, now).catch(err => console.warn('[QUOTA] Update failed:', err));
+        }
+    };
+}
+
+export function rateLimitHeaders(bucket: BucketResult): Record<string, string> {
+    if (bucket.limit === Infinity) {
+        return {};
+    }
+    return {
+        'X-RateLimit-Limit': String(bucket.limit),
+        'X-RateLimit-Remaining': String(bucket.remaining),
+        'X-RateLimit-Reset': String(bucket.resetSeconds),
+    };
+}
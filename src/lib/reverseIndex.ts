@@ -0,0 +1,166 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Reverse Dictionary Index
+ * =============================================================================
+ * The dictionaries are keyed by English headword. The reverse index maps each
+ * translation back to its headwords, per language, so any dictionary language
+ * can be a source:
+ *
+ * - xx -> en   "hola" -> "hello"
+ * - xx -> yy   English is the pivot: "hola" -> "hello" -> "bonjour"
+ *
+ * One foreign word can map to several headwords ("eso" -> "that", "it"). The
+ * candidates are grouped by the translation they lead to; the largest group
+ * wins (ties: the one with the most common headword), and confidence is the
+ * share of candidates that agree with it.
+ * =============================================================================
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type SenseOrigin = 'core' | 'compact' | 'd1';
+
+/**
+ * An English headword a foreign word translates back to
+ */
+export interface ReverseSense {
+    headword: string;
+    translations: Record<string, string>;
+    frequency?: number;     // Rank of the headword (1 = most common)
+    origin: SenseOrigin;
+}
+
+// language -> normalised term -> senses
+export type ReverseIndex = Map<string, Map<string, ReverseSense[]>>;
+
+export interface PivotTranslation {
+    translated: string;
+    headword: string;       // English word the translation went through
+    alternatives: string[]; // Translations via the other headwords
+    ambiguous: boolean;
+    confidence: number;     // 0-1
+}
+
+// Pivoting through English loses some nuance, even when unambiguous
+const PIVOT_CONFIDENCE = 0.9;
+
+// Headwords without a frequency rank sort after every ranked one
+const UNRANKED = Number.MAX_SAFE_INTEGER;
+
+// =============================================================================
+// BUILDING
+// =============================================================================
+
+/**
+ * Normalise a dictionary term or source word for lookup: lowercase, and no
+ * surrounding punctuation ("¿cómo estás?" -> "cómo estás")
+ */
+export function normaliseTerm(term: string): string {
+    return term
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(/^[\s¿¡"'«»“”‘’(]+|[\s?!.,;:"'«»“”‘’)]+$/gu, '');
+}
+
+export function createReverseIndex(): ReverseIndex {
+    return new Map();
+}
+
+/**
+ * Index every translation of a headword. Slash-separated senses
+ * ("tu/vous") are indexed separately. The first copy of a headword wins, so
+ * add sources in order of trust.
+ */
+export function indexEntry(
+    index: ReverseIndex,
+    headword: string,
+    translations: Record<string, string>,
+    meta: { frequency?: number; origin: SenseOrigin }
+): void {
+    const sense: ReverseSense = { headword: headword.toLowerCase(), translations, frequency: meta.frequency, origin: meta.origin };
+
+    for (const [language, translation] of Object.entries(translations)) {
+        let terms = index.get(language);
+        if (!terms) {
+            terms = new Map();
+            index.set(language, terms);
+        }
+
+        for (const term of new Set(translation.split('/').map(normaliseTerm).filter(Boolean))) {
+            const senses = terms.get(term);
+            if (!senses) {
+                terms.set(term, [sense]);
+            } else if (!senses.some(s => s.headword === sense.headword)) {
+                senses.push(sense);
+            }
+        }
+    }
+}
+
+// =============================================================================
+// LOOKUP
+// =============================================================================
+
+/**
+ * Headwords a word in `language` translates back to, most common first.
+ * Earlier indexes take precedence for a headword found in several.
+ */
+export function lookupSenses(indexes: ReverseIndex[], word: string, language: string): ReverseSense[] {
+    const term = normaliseTerm(word);
+    const senses: ReverseSense[] = [];
+
+    for (const index of indexes) {
+        for (const sense of index.get(language)?.get(term) ?? []) {
+            if (!senses.some(s => s.headword === sense.headword)) {
+                senses.push(sense);
+            }
+        }
+    }
+
+    return senses.sort((a, b) => (a.frequency ?? UNRANKED) - (b.frequency ?? UNRANKED));
+}
+
+/**
+ * Translate through the given senses into `to` ('en' gives the headword).
+ * Null when no sense has a translation for `to`.
+ */
+export function resolveSenses(senses: ReverseSense[], to: string): PivotTranslation | null {
+    // Distinct translations, in order of their most common headword
+    const groups = new Map<string, { translated: string; headword: string; count: number }>();
+    let total = 0;
+
+    for (const sense of senses) {
+        const translated = to === 'en' ? sense.headword : sense.translations[to];
+        if (!translated) {
+            continue;
+        }
+        total++;
+
+        const key = normaliseTerm(translated);
+        const group = groups.get(key);
+        if (group) {
+            group.count++;
+        } else {
+            groups.set(key, { translated, headword: sense.headword, count: 1 });
+        }
+    }
+
+    const ranked = [...groups.values()];
+    if (ranked.length === 0) {
+        return null;
+    }
+
+    // Groups are in headword frequency order, so ties go to the most common
+    const best = ranked.reduce((winner, group) => group.count > winner.count ? group : winner, ranked[0]);
+    const agreement = best.count / total;
+
+    return {
+        translated: best.translated,
+        headword: best.headword,
+        alternatives: ranked.filter(group => group !== best).map(group => group.translated),
+        ambiguous: ranked.length > 1,
+        confidence: Math.round((to === 'en' ? agreement : agreement * PIVOT_CONFIDENCE) * 100) / 100,
+    };
+}
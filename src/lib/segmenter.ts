@@ -0,0 +1,211 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Sentence Segmenter
+ * =============================================================================
+ * Splits text into sentences so each one can be translated and cached on its
+ * own. Shared sentences across documents then hit the cache independently.
+ *
+ * Handles:
+ * - Latin terminal punctuation (. ! ? …) with abbreviation and initial checks
+ * - CJK full stops (。！？｡) which need no trailing whitespace
+ * - Arabic/Urdu (؟ ۔) and Hebrew (׃) sentence terminators
+ * - Closing quotes and brackets that belong to the sentence they end
+ * - Line breaks, which always end a segment
+ * =============================================================================
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface Segment {
+    index: number;
+    text: string;       // Sentence text without surrounding whitespace
+    start: number;      // Offset of the first character in the source text
+    end: number;        // Offset just past the last character
+    separator: string;  // Whitespace between this segment and the next
+}
+
+// =============================================================================
+// PUNCTUATION TABLES
+// =============================================================================
+
+// Terminators that need whitespace (or end of text) after them
+const LATIN_TERMINATORS = new Set(['.', '!', '?', '…', '؟', '۔', '׃', '‼', '⁇', '⁈', '⁉']);
+
+// Terminators that end a sentence even without following whitespace
+const CJK_TERMINATORS = new Set(['。', '！', '？', '｡', '．']);
+
+// Closing quotes/brackets that stay attached to the preceding sentence
+const CLOSING_MARKS = new Set([
+    '"', "'", '”', '’', '»', '›', '」', '』', ')', ']', '）', '］', '】', '〉', '》', '〕',
+]);
+
+// Abbreviations that end in a full stop but do not end a sentence
+const ABBREVIATIONS: Record<string, string[]> = {
+    en: [
+        'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e',
+        'inc', 'ltd', 'co', 'corp', 'no', 'fig', 'approx', 'dept', 'est', 'vol',
+        'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+        'mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun', 'a.m', 'p.m', 'u.s', 'u.k',
+    ],
+    es: ['sr', 'sra', 'srta', 'dr', 'dra', 'ud', 'uds', 'etc', 'p.ej', 'pág', 'núm', 'avda'],
+    fr: ['m', 'mme', 'mlle', 'dr', 'etc', 'p.ex', 'cf', 'av', 'bd', 'st', 'ste'],
+    de: ['dr', 'nr', 'bzw', 'usw', 'z.b', 'ca', 'str', 'hr', 'fr', 'evtl', 'ggf', 'inkl'],
+    it: ['sig', 'sigg', 'dott', 'prof', 'ecc', 'p.es', 'pag'],
+    pt: ['sr', 'sra', 'dr', 'dra', 'etc', 'p.ex', 'pág', 'av'],
+};
+
+// =============================================================================
+// SEGMENTATION
+// =============================================================================
+
+/**
+ * Split text into sentence segments. Offsets refer to the original string so
+ * callers can map translations back onto the source.
+ */
+export function segmentText(text: string, language: string = 'en'): Segment[] {
+    const abbreviations = new Set([
+        ...(ABBREVIATIONS[language] || []),
+        ...ABBREVIATIONS.en,
+    ]);
+
+    const boundaries: number[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const char = text[i];
+
+        // Line breaks always end a segment
+        if (char === '\n') {
+            boundaries.push(i);
+            i++;
+            continue;
+        }
+
+        if (!LATIN_TERMINATORS.has(char) && !CJK_TERMINATORS.has(char)) {
+            i++;
+            continue;
+        }
+
+        // Consume runs of terminators ("?!", "...") and any closing marks
+        let end = i + 1;
+        while (end < text.length && (LATIN_TERMINATORS.has(text[end]) || CJK_TERMINATORS.has(text[end]))) {
+            end++;
+        }
+        while (end < text.length && CLOSING_MARKS.has(text[end])) {
+            end++;
+        }
+
+        const isCJK = CJK_TERMINATORS.has(text[end - 1]) || CJK_TERMINATORS.has(char);
+        const atEnd = end >= text.length;
+        const followedBySpace = !atEnd && /\s/.test(text[end]);
+
+        if (isCJK || atEnd || (followedBySpace && !isNonTerminalPeriod(text, i, end, abbreviations))) {
+            boundaries.push(end);
+        }
+
+        i = end;
+    }
+
+    return buildSegments(text, boundaries);
+}
+
+/**
+ * Decide whether a full stop is part of an abbreviation, initial or similar
+ * rather than the end of a sentence.
+ */
+function isNonTerminalPeriod(
+    text: string,
+    terminatorStart: number,
+    terminatorEnd: number,
+    abbreviations: Set<string>
+): boolean {
+    // Only a lone full stop can be an abbreviation ("etc." but not "etc.!")
+    const terminator = text.slice(terminatorStart, terminatorEnd).replace(/[^.!?…]/g, '');
+    if (terminator !== '.') {
+        return false;
+    }
+
+    // Word immediately before the full stop (may contain inner dots: "e.g")
+    const before = text.slice(0, terminatorStart);
+    const wordMatch = before.match(/([\p{L}.]+)$/u);
+    const word = wordMatch ? wordMatch[1].toLowerCase() : '';
+
+    if (word && abbreviations.has(word)) {
+        return true;
+    }
+
+    // Single-letter initials ("J. R. R. Tolkien")
+    if (/^\p{Lu}$/u.test(wordMatch?.[1] || '')) {
+        return true;
+    }
+
+    // Next word starting in lowercase usually means the sentence continues
+    const after = text.slice(terminatorEnd).trimStart();
+    if (after && /^\p{Ll}/u.test(after)) {
+        return true;
+    }
+
+    return false;
+}
+
+/**
+ * Turn boundary offsets into trimmed segments with their trailing separators
+ */
+function buildSegments(text: string, boundaries: number[]): Segment[] {
+    const segments: Segment[] = [];
+    let cursor = 0;
+
+    const cutPoints = [...boundaries, text.length];
+    for (const cut of cutPoints) {
+        if (cut <= cursor && cut !== text.length) {
+            continue;
+        }
+
+        const raw = text.slice(cursor, cut);
+        const leading = raw.length - raw.trimStart().length;
+        const trimmed = raw.trim();
+
+        if (trimmed.length > 0) {
+            segments.push({
+                index: segments.length,
+                text: trimmed,
+                start: cursor + leading,
+                end: cursor + leading + trimmed.length,
+                separator: '',
+            });
+        }
+
+        cursor = Math.max(cursor, cut);
+    }
+
+    // Separator is whatever lies between one segment's end and the next start
+    for (let s = 0; s < segments.length; s++) {
+        const next = segments[s + 1];
+        segments[s].separator = next ? text.slice(segments[s].end, next.start) : '';
+    }
+
+    return segments;
+}
+
+/**
+ * Rejoin translated segments, keeping the original separators. Scripts written
+ * without spaces (Chinese, Japanese, Thai) drop plain spaces between sentences.
+ */
+export function joinSegments(
+    parts: Array<{ translated: string; separator: string }>,
+    targetLanguage: string
+): string {
+    const noSpaces = ['zh', 'ja', 'th'].includes(targetLanguage);
+
+    return parts
+        .map((part, i) => {
+            if (i === parts.length - 1) {
+                return part.translated;
+            }
+            const separator = noSpaces && !part.separator.includes('\n') ? '' : part.separator;
+            return part.translated + separator;
+        })
+        .join('');
+}
@@ -0,0 +1,260 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Subtitles (SRT / WebVTT)
+ * =============================================================================
+ * Parses subtitle files into cues, hands out the cue text for translation and
+ * writes the file back with numbering, timestamps, cue settings and styling
+ * tags untouched. Translated text is re-wrapped to a characters-per-line and
+ * lines-per-cue budget so it still fits on screen.
+ *
+ * - Cue lines are joined before translation so sentences aren't cut mid-way
+ * - Dialogue cues ("- Hi.\n- Hello.") keep one speaker per line
+ * - Header, NOTE, STYLE and REGION blocks are copied through unchanged
+ * =============================================================================
+ */
+
+import type { ProtectionOptions } from './placeholders';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+    index: number;
+    head: string[];     // Identifier/number and timing lines, kept verbatim
+    lines: string[];    // Cue text lines
+    dialogue: boolean;  // Every line starts with a speaker dash
+}
+
+export interface SubtitleDocument {
+    format: SubtitleFormat;
+    lineEnding: string;
+    trailing: string;   // Blank lines after the last block
+    blocks: Array<SubtitleCue | string>; // Cues, or raw blocks copied as-is
+}
+
+export interface SubtitleUnit {
+    id: string;         // `${cue}` or `${cue}:${line}` for dialogue lines
+    text: string;
+}
+
+export interface WrapOptions {
+    maxCharsPerLine: number;
+    maxLinesPerCue: number;
+    language: string;
+}
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt'];
+
+export const DEFAULT_WRAP = { maxCharsPerLine: 42, maxLinesPerCue: 2 };
+
+// Styling that must come through translation untouched:
+// <i>, <c.yellow>, <v Speaker>, <00:00:01.500> karaoke timestamps, {\an8}
+export const SUBTITLE_PROTECTION: ProtectionOptions = {
+    custom: ['<\\/?[a-zA-Z][^<>]*>', '<\\d{2}:[\\d:.]+>', '\\{\\\\[^}]*\\}'],
+};
+
+const TIMING_LINE = /-->/;
+
+// Markup that takes no room on screen
+const INVISIBLE_MARKUP = /<[^>]*>|\{\\[^}]*\}/g;
+
+// Scripts wrapped by character rather than at spaces
+const NO_SPACE_LANGUAGES = ['zh', 'ja', 'th'];
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Detect the format from the content (WebVTT files must start with WEBVTT)
+ */
+export function detectSubtitleFormat(content: string): SubtitleFormat {
+    return /^﻿?WEBVTT/.test(content) ? 'vtt' : 'srt';
+}
+
+/**
+ * Split a subtitle file into cues and raw blocks
+ */
+export function parseSubtitles(content: string, format: SubtitleFormat = detectSubtitleFormat(content)): SubtitleDocument {
+    const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+    const normalised = content.replace(/\r\n?/g, '\n');
+    const body = normalised.replace(/\n+$/, '');
+
+    if (format === 'vtt' && !/^﻿?WEBVTT/.test(normalised)) {
+        throw new Error('WebVTT files must start with "WEBVTT"');
+    }
+
+    const blocks: SubtitleDocument['blocks'] = [];
+    let cueCount = 0;
+
+    for (const block of body.split(/\n{2,}/)) {
+        const lines = block.split('\n');
+        const timing = lines.findIndex(line => TIMING_LINE.test(line));
+
+        // Header, NOTE/STYLE/REGION blocks and anything else without timing
+        if (timing === -1 || timing > 1 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) {
+            blocks.push(block);
+            continue;
+        }
+
+        const text = lines.slice(timing + 1);
+        blocks.push({
+            index: cueCount++,
+            head: lines.slice(0, timing + 1),
+            lines: text,
+            dialogue: text.length > 1 && text.every(line => /^\s*(?:<[^>]+>)*\s*[-–]/.test(line)),
+        });
+    }
+
+    if (format === 'srt' && cueCount === 0 && normalised.trim() !== '') {
+        throw new Error('No subtitle cues found');
+    }
+
+    return { format, lineEnding, trailing: normalised.slice(body.length), blocks };
+}
+
+/**
+ * Text to translate, one unit per cue (or per line of a dialogue cue)
+ */
+export function subtitleUnits(document: SubtitleDocument): SubtitleUnit[] {
+    const units: SubtitleUnit[] = [];
+
+    for (const block of document.blocks) {
+        if (typeof block === 'string') continue;
+
+        if (block.dialogue) {
+            block.lines.forEach((line, i) => {
+                if (hasText(line)) units.push({ id: `${block.index}:${i}`, text: line.trim() });
+            });
+        } else {
+            const text = block.lines.map(line => line.trim()).join(' ');
+            if (hasText(text)) units.push({ id: `${block.index}`, text });
+        }
+    }
+
+    return units;
+}
+
+function hasText(text: string): boolean {
+    return /[\p{L}\p{N}]/u.test(text.replace(INVISIBLE_MARKUP, ''));
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+/**
+ * Write the file back with translated cue text, re-wrapped to the budget.
+ * Returns the indexes of cues whose text still doesn't fit.
+ */
+export function renderSubtitles(
+    document: SubtitleDocument,
+    translations: Map<string, string>,
+    wrap: WrapOptions
+): { text: string; overflow: number[] } {
+    const overflow: number[] = [];
+
+    const blocks = document.blocks.map(block => {
+        if (typeof block === 'string') return block;
+
+        let lines: string[];
+        if (block.dialogue) {
+            lines = block.lines.map((line, i) => translations.get(`${block.index}:${i}`) ?? line);
+        } else {
+            const translated = translations.get(`${block.index}`);
+            lines = translated === undefined ? block.lines : wrapText(translated, wrap);
+        }
+
+        if (lines.length > wrap.maxLinesPerCue || lines.some(line => visibleLength(line) > wrap.maxCharsPerLine)) {
+            overflow.push(block.index);
+        }
+        return [...block.head, ...lines].join('\n');
+    });
+
+    const text = blocks.join('\n\n') + document.trailing;
+    return { text: text.replace(/\n/g, document.lineEnding), overflow };
+}
+
+function visibleLength(text: string): number {
+    return [...text.replace(INVISIBLE_MARKUP, '')].length;
+}
+
+/**
+ * Break text into at most `maxLinesPerCue` lines, choosing the breaks that
+ * keep the longest line shortest (ties favour a longer bottom line).
+ * `maxCharsPerLine` is not guaranteed: text too long for the line budget is
+ * spread evenly over the lines, each then over the limit, and
+ * renderSubtitles reports the cue as an overflow.
+ */
+export function wrapText(text: string, wrap: WrapOptions): string[] {
+    const noSpaces = NO_SPACE_LANGUAGES.includes(wrap.language);
+    const words = noSpaces ? splitCharacters(text) : text.split(/\s+/).filter(Boolean);
+    const joiner = noSpaces ? '' : ' ';
+    const total = visibleLength(words.join(joiner));
+
+    if (total <= wrap.maxCharsPerLine || words.length < 2) {
+        return [words.join(joiner)];
+    }
+
+    const lineCount = Math.min(wrap.maxLinesPerCue, words.length, Math.ceil(total / wrap.maxCharsPerLine));
+    const lengths = words.map(visibleLength);
+    const width = (from: number, to: number) =>
+        lengths.slice(from, to).reduce((sum, n) => sum + n, 0) + (to - from - 1) * joiner.length;
+
+    // best[k][i]: smallest possible longest line when the first i words fill k lines
+    const best: number[][] = [[0, ...words.map(() => Infinity)]];
+    const breakAt: number[][] = [[]];
+
+    for (let k = 1; k <= lineCount; k++) {
+        best[k] = [Infinity];
+        breakAt[k] = [0];
+        for (let i = 1; i <= words.length; i++) {
+            best[k][i] = Infinity;
+            for (let j = k - 1; j < i; j++) {
+                const cost = Math.max(best[k - 1][j], width(j, i));
+                if (cost < best[k][i]) {
+                    best[k][i] = cost;
+                    breakAt[k][i] = j;
+                }
+            }
+        }
+    }
+
+    const lines: string[] = [];
+    let end = words.length;
+    for (let k = lineCount; k >= 1; k--) {
+        const start = breakAt[k][end];
+        lines.unshift(words.slice(start, end).join(joiner));
+        end = start;
+    }
+    return lines;
+}
+
+/**
+ * Characters, keeping styling tags attached to the character they precede
+ */
+function splitCharacters(text: string): string[] {
+    const parts: string[] = [];
+    let pending = '';
+
+    for (const match of text.matchAll(/<[^>]*>|\{\\[^}]*\}|\s+|[\s\S]/gu)) {
+        const token = match[0];
+        if (/^\s+$/.test(token)) continue;
+        if (token.length > 1 && (token.startsWith('<') || token.startsWith('{\\'))) {
+            if (token.startsWith('</') && parts.length > 0) {
+                parts[parts.length - 1] += token;
+            } else {
+                pending += token;
+            }
+            continue;
+        }
+        parts.push(pending + token);
+        pending = '';
+    }
+
+    if (pending && parts.length > 0) parts[parts.length - 1] += pending;
+    return parts;
+}
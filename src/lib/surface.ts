@@ -0,0 +1,240 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Surface Form Preservation
+ * =============================================================================
+ * Dictionary translations are looked up word by word, lowercased and without
+ * punctuation. This module puts the source text's surface form back:
+ *
+ * - Case        Title and UPPER source words give Title and UPPER output
+ * - Punctuation Each word's surrounding punctuation is kept, in the target
+ *               language's conventions: ¿…? and ¡…! in Spanish, a narrow
+ *               no-break space before ! ? ; : in French, full-width marks in
+ *               Chinese and Japanese, Arabic ، ؛ ؟
+ * - Whitespace  Original separators are kept (newlines and paragraph breaks
+ *               included); Chinese and Japanese drop spaces between words
+ * =============================================================================
+ */
+
+import { stripPunctuation } from './morphology';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface SurfaceWord {
+    text: string;           // As written in the source
+    leading: string;        // Punctuation before the word
+    core: string;
+    trailing: string;       // Punctuation after the word
+    separator: string;      // Whitespace up to the next word
+}
+
+export interface SurfaceLayout {
+    prefix: string;         // Whitespace before the first word
+    words: SurfaceWord[];
+}
+
+/**
+ * Translation of `words` source words from `start`; null keeps the source
+ */
+export interface TranslatedSpan {
+    start: number;
+    words: number;
+    translated: string | null;
+}
+
+export type CasePattern = 'lower' | 'title' | 'upper' | 'other';
+
+interface RenderedPiece {
+    leading: string;
+    body: string;
+    trailing: string;
+    separator: string;
+}
+
+const FULL_WIDTH_MARKS: Record<string, string> = { '!': '！', '?': '？', ':': '：', ';': '；', '(': '（', ')': '）' };
+
+// Punctuation replaced for each target language
+const PUNCTUATION_MAPS: Record<string, Record<string, string>> = {
+    ja: { ...FULL_WIDTH_MARKS, ',': '、', '.': '。' },
+    zh: { ...FULL_WIDTH_MARKS, ',': '，', '.': '。' },
+    ar: { '?': '؟', ',': '،', ';': '؛' },
+    fa: { '?': '؟', ',': '،', ';': '؛' },
+    ur: { '?': '؟', ',': '،', ';': '؛' },
+};
+
+// Languages written without spaces between words
+const UNSPACED_LANGUAGES = ['ja', 'zh'];
+
+// French puts a (narrow no-break) space before these
+const FRENCH_SPACED_MARKS = /(^|[^\s!?;:»\u202F])([!?;:»])/g;
+const NARROW_NBSP = '\u202F';
+
+const SENTENCE_END = /[.!?…]/;
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303F\uFF00-\uFFEF]/u;
+
+// =============================================================================
+// SOURCE LAYOUT
+// =============================================================================
+
+/**
+ * Split text into words with their punctuation and the whitespace after them
+ */
+export function splitSurface(text: string): SurfaceLayout {
+    const parts = text.split(/(\s+)/);
+    const layout: SurfaceLayout = { prefix: '', words: [] };
+
+    for (let i = 0; i < parts.length; i += 2) {
+        const word = parts[i];
+        const separator = parts[i + 1] ?? '';
+        if (!word) {
+            // Only at the very start or end of the text
+            const last = layout.words.at(-1);
+            if (last) last.separator += separator;
+            else layout.prefix += separator;
+            continue;
+        }
+        layout.words.push({ text: word, ...stripPunctuation(word), separator });
+    }
+
+    return layout;
+}
+
+/**
+ * Casing of a run of words (scripts without case count as lower)
+ */
+export function casePattern(words: string[]): CasePattern {
+    const letters = words.join('').replace(/[^\p{L}]/gu, '');
+    if (!/\p{Lu}/u.test(letters)) {
+        return 'lower';
+    }
+    if (letters.length > 1 && letters === letters.toUpperCase()) {
+        return 'upper';
+    }
+    const first = words[0] ?? '';
+    return /^\p{Lu}/u.test(first) && first.slice(1) === first.slice(1).toLowerCase() ? 'title' : 'other';
+}
+
+/**
+ * Give a translation the source's casing. Lowercase sources keep the
+ * dictionary's own casing (German nouns stay capitalised).
+ */
+export function applyCase(text: string, pattern: CasePattern, language: string): string {
+    switch (pattern) {
+        case 'upper':
+            return text.toLocaleUpperCase(language);
+        case 'title':
+            return text.replace(/\p{L}/u, (letter) => letter.toLocaleUpperCase(language));
+        default:
+            return text;
+    }
+}
+
+// =============================================================================
+// PUNCTUATION
+// =============================================================================
+
+/**
+ * Rewrite punctuation marks in the target language's conventions. Spanish
+ * opening ¿ and ¡ are dropped elsewhere (the closing mark stays).
+ */
+export function localisePunctuation(marks: string, language: string, position: 'leading' | 'trailing'): string {
+    const base = language.split('-')[0];
+    const map = PUNCTUATION_MAPS[base];
+    let result = base === 'es' ? marks : marks.replace(/[¿¡]/g, '');
+    if (map) {
+        result = result.replace(/\.\.\./g, '…').replace(/[!?:;,.()]/g, (mark) => map[mark] ?? mark);
+    }
+
+    if (base === 'fr') {
+        result = position === 'trailing'
+            ? result.replace(FRENCH_SPACED_MARKS, `$1${NARROW_NBSP}$2`)
+            : result.replace(/«(?!\s)/g, `«${NARROW_NBSP}`);
+    }
+    return result;
+}
+
+/**
+ * Spanish opens questions and exclamations with ¿ and ¡
+ */
+function openSpanishSentence(first: RenderedPiece, last: RenderedPiece): void {
+    const opening = (last.trailing.includes('?') ? '¿' : '') + (last.trailing.includes('!') ? '¡' : '');
+    const start = first.leading + first.body;
+    if (opening && !/[¿¡]/.test(start.slice(0, first.leading.length + 1))) {
+        first.leading += opening;
+    }
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+function joinSeparator(left: string, separator: string, right: string, language: string): string {
+    const unspaced = UNSPACED_LANGUAGES.includes(language.split('-')[0]);
+    if (unspaced && !separator.includes('\n') && CJK_CHAR.test(left.slice(-1)) && CJK_CHAR.test(right.charAt(0))) {
+        return '';
+    }
+    return separator;
+}
+
+/**
+ * Rebuild a translation in the source's layout. `spans` cover the source
+ * words in order; each span takes the punctuation around its first and last
+ * word and the whitespace after its last word.
+ */
+export function renderTranslation(layout: SurfaceLayout, spans: TranslatedSpan[], language: string): string {
+    const pieces: RenderedPiece[] = spans.map((span) => {
+        const words = layout.words.slice(span.start, span.start + span.words);
+        const first = words[0];
+        const last = words[words.length - 1];
+
+        let body: string;
+        if (span.translated === null) {
+            // Untranslated words keep their spelling and inner spacing
+            body = words.map((word, i) => {
+                const text = i === 0 ? word.text.slice(word.leading.length) : word.text;
+                return i === words.length - 1
+                    ? text.slice(0, text.length - word.trailing.length)
+                    : text + word.separator;
+            }).join('');
+        } else {
+            // The source's own punctuation replaces any in the dictionary entry
+            const translated = first.leading || last.trailing
+                ? stripPunctuation(span.translated).core || span.translated
+                : span.translated;
+            // English "I" is capitalised anywhere; other words keep their case
+            const previous = layout.words[span.start - 1];
+            const sentenceStart = !previous || SENTENCE_END.test(previous.trailing) || previous.separator.includes('\n');
+            const pattern = first.core === 'I' && words.length === 1 && !sentenceStart
+                ? 'lower'
+                : casePattern(words.map(word => word.core));
+            body = applyCase(translated, pattern, language);
+        }
+
+        return {
+            leading: localisePunctuation(first.leading, language, 'leading'),
+            body,
+            trailing: localisePunctuation(last.trailing, language, 'trailing'),
+            separator: last.separator,
+        };
+    });
+
+    // Sentences end at closing punctuation or a line break
+    if (language.split('-')[0] === 'es') {
+        let sentenceStart = 0;
+        pieces.forEach((piece, i) => {
+            if (SENTENCE_END.test(piece.trailing) || piece.separator.includes('\n') || i === pieces.length - 1) {
+                openSpanishSentence(pieces[sentenceStart], piece);
+                sentenceStart = i + 1;
+            }
+        });
+    }
+
+    let output = layout.prefix;
+    pieces.forEach((piece, i) => {
+        const text = piece.leading + piece.body + piece.trailing;
+        const next = pieces[i + 1];
+        output += text + (next ? joinSeparator(text, piece.separator, next.leading + next.body, language) : piece.separator);
+    });
+    return output;
+}
@@ -0,0 +1,421 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Translation Memory
+ * =============================================================================
+ * Persistent source/target segment pairs in D1 (`translation_memory`). Unlike
+ * CACHE_KV entries they never expire and remember where they came from.
+ *
+ * Lookup:
+ * 1. Candidates sharing the most tokens (words, or CJK bigrams) and of a
+ *    compatible length are read from `translation_memory_tokens`
+ * 2. Each candidate is scored by edit distance on the normalised text
+ * 3. The best match at or above the requested score wins
+ *
+ * Provenance ranks dictionary < ai < import < human: an entry is never
+ * overwritten by a translation of lower rank.
+ *
+ * TMX 1.4 import/export lives at the end of this file.
+ * =============================================================================
+ */
+
+import type { D1Database } from './d1-dictionary';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type TMProvenance = 'dictionary' | 'ai' | 'import' | 'human';
+
+export interface TMEntry {
+    id: number;
+    sourceLanguage: string;
+    targetLanguage: string;
+    source: string;
+    target: string;
+    provenance: TMProvenance;
+    usageCount: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface TMEntryInput {
+    sourceLanguage: string;
+    targetLanguage: string;
+    source: string;
+    target: string;
+    provenance: TMProvenance;
+}
+
+export interface TMMatch {
+    entry: TMEntry;
+    /** Similarity percentage: 100 is identical, 99 differs only in case/spacing */
+    score: number;
+}
+
+interface D1TMRow {
+    id: number;
+    source_language: string;
+    target_language: string;
+    source_text: string;
+    target_text: string;
+    provenance: TMProvenance;
+    usage_count: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export const TM_PROVENANCES: TMProvenance[] = ['dictionary', 'ai', 'import', 'human'];
+
+// Default lowest score returned by fuzzy lookups
+export const DEFAULT_MIN_TM_SCORE = 70;
+
+// Fuzzy lookup limits
+const MAX_QUERY_TOKENS = 32;
+const MAX_CANDIDATES = 25;
+const MAX_SEGMENT_LENGTH = 2000;
+
+// Scripts written without spaces are indexed by character bigrams
+const NO_SPACE_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+// =============================================================================
+// NORMALISATION & SCORING
+// =============================================================================
+
+/**
+ * Canonical form used for exact lookups and scoring
+ */
+export function normaliseSegment(text: string): string {
+    return text.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Index tokens for a segment: distinct lowercase words, or character bigrams
+ * for scripts without spaces. Longest first, so queries keep the rarest.
+ */
+export function segmentTokens(text: string): string[] {
+    const tokens = new Set<string>();
+
+    for (const match of normaliseSegment(text).matchAll(/[\p{L}\p{M}\p{N}]+/gu)) {
+        const word = match[0];
+        if (NO_SPACE_SCRIPT.test(word)) {
+            const chars = [...word];
+            for (let i = 0; i < chars.length - 1; i++) tokens.add(chars[i] + chars[i + 1]);
+            if (chars.length === 1) tokens.add(word);
+        } else if (word.length > 1) {
+            tokens.add(word);
+        }
+    }
+
+    return [...tokens].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Similarity of two segments as a percentage (Levenshtein on normalised text)
+ */
+export function similarityScore(a: string, b: string): number {
+    if (a.trim() === b.trim()) return 100;
+
+    const left = [...normaliseSegment(a)];
+    const right = [...normaliseSegment(b)];
+    const longest = Math.max(left.length, right.length);
+
+    if (longest === 0) return 100;
+    if (left.join('') === right.join('')) return 99; // case/whitespace only
+
+    let previous = Array.from({ length: right.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= left.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= right.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+
+    // Cap below 100 so only identical text counts as an exact match
+    return Math.min(99, Math.floor((1 - previous[right.length] / longest) * 100));
+}
+
+// =============================================================================
+// LOOKUP
+// =============================================================================
+
+/**
+ * Best memory match for a segment at or above `minScore`
+ */
+export async function findMemoryMatch(
+    db: D1Database,
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    minScore: number = DEFAULT_MIN_TM_SCORE
+): Promise<TMMatch | null> {
+    const key = normaliseSegment(text);
+    if (!key || key.length > MAX_SEGMENT_LENGTH) {
+        return null;
+    }
+
+    // Exact (normalised) match needs no scoring query
+    const exact = await db
+        .prepare('SELECT * FROM translation_memory WHERE source_language = ? AND target_language = ? AND source_key = ?')
+        .bind(sourceLanguage, targetLanguage, key)
+        .first<D1TMRow>();
+
+    if (exact) {
+        return { entry: rowToEntry(exact), score: similarityScore(text, exact.source_text) };
+    }
+
+    if (minScore >= 100) {
+        return null;
+    }
+
+    const tokens = segmentTokens(text).slice(0, MAX_QUERY_TOKENS);
+    if (tokens.length === 0) {
+        return null;
+    }
+
+    // A match of minScore% can't differ in length by more than (100 - minScore)%
+    const ratio = Math.max(minScore, 1) / 100;
+    const results = await db
+        .prepare(
+            `SELECT tm.*, COUNT(*) AS shared
+       FROM translation_memory_tokens t
+       JOIN translation_memory tm ON tm.id = t.tm_id
+       WHERE tm.source_language = ? AND tm.target_language = ?
+         AND tm.source_length BETWEEN ? AND ?
+         AND t.token IN (${tokens.map(() => '?').join(', ')})
+       GROUP BY tm.id
+       ORDER BY shared DESC
+       LIMIT ?`
+        )
+        .bind(
+            sourceLanguage,
+            targetLanguage,
+            Math.floor(key.length * ratio),
+            Math.ceil(key.length / ratio),
+            ...tokens,
+            MAX_CANDIDATES
+        )
+        .all<D1TMRow>();
+
+    let best: TMMatch | null = null;
+    for (const row of results.results || []) {
+        const score = similarityScore(text, row.source_text);
+        if (score >= minScore && (!best || score > best.score)) {
+            best = { entry: rowToEntry(row), score };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Count a reuse of a memory entry
+ */
+export async function recordMemoryUsage(db: D1Database, id: number): Promise<void> {
+    await db
+        .prepare('UPDATE translation_memory SET usage_count = usage_count + 1 WHERE id = ?')
+        .bind(id)
+        .run();
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+/**
+ * Add or update a segment pair. Returns false when an entry of higher
+ * provenance already exists (a human edit is never replaced by AI output).
+ */
+export async function storeMemoryEntry(db: D1Database, input: TMEntryInput): Promise<boolean> {
+    const key = normaliseSegment(input.source);
+    const target = input.target.trim();
+    if (!key || !target || key.length > MAX_SEGMENT_LENGTH) {
+        return false;
+    }
+
+    const existing = await db
+        .prepare('SELECT id, provenance FROM translation_memory WHERE source_language = ? AND target_language = ? AND source_key = ?')
+        .bind(input.sourceLanguage, input.targetLanguage, key)
+        .first<{ id: number; provenance: TMProvenance }>();
+
+    if (existing) {
+        if (provenanceRank(input.provenance) < provenanceRank(existing.provenance)) {
+            return false;
+        }
+
+        await db
+            .prepare(
+                `UPDATE translation_memory
+         SET source_text = ?, target_text = ?, provenance = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`
+            )
+            .bind(input.source.trim(), target, input.provenance, existing.id)
+            .run();
+        return true;
+    }
+
+    const row = await db
+        .prepare(
+            `INSERT INTO translation_memory
+         (source_language, target_language, source_text, target_text, source_key, source_length, provenance)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       RETURNING id`
+        )
+        .bind(input.sourceLanguage, input.targetLanguage, input.source.trim(), target, key, key.length, input.provenance)
+        .first<{ id: number }>();
+
+    if (row) {
+        await db
+            .prepare('INSERT OR IGNORE INTO translation_memory_tokens (tm_id, token) SELECT ?, value FROM json_each(?)')
+            .bind(row.id, JSON.stringify(segmentTokens(input.source)))
+            .run();
+    }
+
+    return true;
+}
+
+/**
+ * List entries (for export), optionally for one language pair
+ */
+export async function listMemoryEntries(
+    db: D1Database,
+    options: { sourceLanguage?: string; targetLanguage?: string; limit?: number; offset?: number } = {}
+): Promise<TMEntry[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.sourceLanguage) {
+        conditions.push('source_language = ?');
+        params.push(options.sourceLanguage);
+    }
+    if (options.targetLanguage) {
+        conditions.push('target_language = ?');
+        params.push(options.targetLanguage);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const results = await db
+        .prepare(`SELECT * FROM translation_memory ${where} ORDER BY source_language, source_key, target_language LIMIT ? OFFSET ?`)
+        .bind(...params, options.limit ?? 10000, options.offset ?? 0)
+        .all<D1TMRow>();
+
+    return (results.results || []).map(rowToEntry);
+}
+
+function provenanceRank(provenance: TMProvenance): number {
+    return TM_PROVENANCES.indexOf(provenance);
+}
+
+function rowToEntry(row: D1TMRow): TMEntry {
+    return {
+        id: row.id,
+        sourceLanguage: row.source_language,
+        targetLanguage: row.target_language,
+        source: row.source_text,
+        target: row.target_text,
+        provenance: row.provenance,
+        usageCount: row.usage_count || 0,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+// =============================================================================
+// TMX
+// =============================================================================
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/<[^>]+>/g, '') // inline markup (<bpt>, <ph>...) is dropped
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+        .replace(/&#x([0-9a-fA-F]+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&amp;/g, '&');
+}
+
+function encodeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function baseLanguage(code: string): string {
+    return code.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Read segment pairs from a TMX document. Each <tu> yields one pair per
+ * target <tuv>, paired with the header's source language (or the first tuv).
+ */
+export function parseTmx(xml: string, provenance: TMProvenance = 'import'): TMEntryInput[] {
+    if (!/<tmx\b/.test(xml)) {
+        throw new Error('Not a TMX document');
+    }
+
+    const header = xml.match(/<header\b[^>]*>/)?.[0] || '';
+    const headerSource = header.match(/\ssrclang\s*=\s*["']([^"']+)["']/)?.[1];
+    const entries: TMEntryInput[] = [];
+
+    for (const tu of xml.matchAll(/<tu\b([^>]*)>([\s\S]*?)<\/tu>/g)) {
+        const unitSource = tu[1].match(/\ssrclang\s*=\s*["']([^"']+)["']/)?.[1] ?? headerSource;
+        const unitProvenance = tu[2].match(/<prop\s+type=["']x-provenance["']\s*>([^<]+)<\/prop>/)?.[1] as TMProvenance | undefined;
+
+        const variants = [...tu[2].matchAll(/<tuv\b([^>]*)>[\s\S]*?<seg>([\s\S]*?)<\/seg>[\s\S]*?<\/tuv>/g)]
+            .map(tuv => ({
+                language: tuv[1].match(/\s(?:xml:)?lang\s*=\s*["']([^"']+)["']/)?.[1] || '',
+                text: decodeXml(tuv[2]).trim(),
+            }))
+            .filter(v => v.language && v.text);
+
+        if (variants.length < 2) continue;
+
+        const source = (unitSource && unitSource !== '*all*'
+            ? variants.find(v => baseLanguage(v.language) === baseLanguage(unitSource))
+            : undefined) ?? variants[0];
+
+        for (const target of variants) {
+            if (target === source) continue;
+            entries.push({
+                sourceLanguage: baseLanguage(source.language),
+                targetLanguage: baseLanguage(target.language),
+                source: source.text,
+                target: target.text,
+                provenance: unitProvenance && TM_PROVENANCES.includes(unitProvenance) ? unitProvenance : provenance,
+            });
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Write entries as a TMX 1.4 document (one <tu> per entry)
+ */
+export function buildTmx(entries: TMEntry[], sourceLanguage: string = '*all*'): string {
+    const tmxDate = (value: string) => value.replace(/[-:]/g, '').replace(' ', 'T').replace(/\.\d+/, '').replace(/Z?$/, 'Z');
+
+    const dates = (entry: TMEntry) => [
+        entry.createdAt ? ` creationdate="${tmxDate(entry.createdAt)}"` : '',
+        entry.updatedAt ? ` changedate="${tmxDate(entry.updatedAt)}"` : '',
+    ].join('');
+
+    const units = entries.map(entry => `    <tu tuid="${entry.id}" srclang="${entry.sourceLanguage}"${dates(entry)} usagecount="${entry.usageCount}">
+      <prop type="x-provenance">${entry.provenance}</prop>
+      <tuv xml:lang="${entry.sourceLanguage}"><seg>${encodeXml(entry.source)}</seg></tuv>
+      <tuv xml:lang="${entry.targetLanguage}"><seg>${encodeXml(entry.target)}</seg></tuv>
+    </tu>`);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="lingua.xaostech.io" creationtoolversion="1.0" datatype="plaintext" segtype="sentence" adminlang="en" srclang="${sourceLanguage}" o-tmf="lingua-tm"/>
+  <body>
+${units.join('\n')}
+  </body>
+</tmx>
+`;
+}
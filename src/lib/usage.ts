@@ -0,0 +1,332 @@
+/**
+ * =============================================================================
+ * lingua.xaostech.io - Usage Accounting
+ * =============================================================================
+ * Records one `usage_events` row per metered request (D1) and aggregates them
+ * for GET /usage, so we can see how much traffic the dictionary and cache
+ * absorb versus m2m100 versus the Llama fallbacks.
+ *
+ * Model attempts and cache hits are traced as they happen (`traceModel`,
+ * `traceCacheHit`); the request's
+ * language pair and size are read from its JSON body once it has been
+ * handled.
+ * =============================================================================
+ */
+
+import type { Context, MiddlewareHandler } from 'hono';
+import { routePath } from 'hono/route';
+import type { D1Database } from './d1-dictionary';
+import type { Principal } from './auth';
+import type { UsageMeter } from './rateLimit';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+// local: computed in the Worker (offline provider, heuristics); none: failed
+export type UsageSource = 'dictionary' | 'cache' | 'api' | 'mixed' | 'local' | 'none';
+
+export interface ModelAttempt {
+    model: string;
+    ok: boolean;
+    ms: number;
+    assist?: boolean;   // Alignment/analysis call rather than the translation itself
+    local?: boolean;    // Offline dictionary provider rather than a model
+}
+
+// Collected while handling one request
+export interface UsageTrace {
+    attempts: ModelAttempt[];
+    cacheHits: number;          // Cached results served (whole texts, batch items, segments)
+    settled?: Promise<void>;    // Streamed responses: resolves once the stream has ended
+}
+
+export interface UsageEvent {
+    principal: string;
+    route: string;
+    sourceLanguage: string | null;
+    targetLanguage: string | null;
+    characters: number;
+    source: UsageSource;
+    model: string | null;
+    fallbackChain: ModelAttempt[];
+    latencyMs: number;
+    status: number;
+}
+
+export type UsageGrouping = 'day' | 'key' | 'pair' | 'model' | 'source' | 'route';
+
+export interface UsageReportRow {
+    group: string | null;
+    requests: number;
+    characters: number;
+    share: number;          // Fraction of all requests in the report
+    dictionary: number;     // Requests per source
+    cache: number;
+    api: number;
+    mixed: number;
+    local: number;
+    none: number;
+    avgLatencyMs: number;
+}
+
+export interface UsageEnv {
+    LINGUA_DB?: D1Database;
+}
+
+export const USAGE_GROUPINGS: UsageGrouping[] = ['day', 'key', 'pair', 'model', 'source', 'route'];
+
+// Requests that never reached a model are grouped under their source
+const GROUP_EXPRESSIONS: Record<UsageGrouping, string> = {
+    day: 'date(created_at)',
+    key: 'principal',
+    pair: "source_language || '-' || target_language",
+    model: 'COALESCE(model, source)',
+    source: 'source',
+    route: 'route',
+};
+
+// =============================================================================
+// TRACING
+// =============================================================================
+
+/**
+ * Note a Workers AI call for the current request (no-op outside trackUsage)
+ */
+export function traceModel(c: Context, attempt: ModelAttempt): void {
+    const trace = c.get('trace') as UsageTrace | undefined;
+    trace?.attempts.push(attempt);
+}
+
+/**
+ * Note a cached result served for the current request (no-op outside trackUsage)
+ */
+export function traceCacheHit(c: Context): void {
+    const trace = c.get('trace') as UsageTrace | undefined;
+    if (trace) {
+        trace.cacheHits++;
+    }
+}
+
+/**
+ * Hold the current request's usage event until the returned callback runs,
+ * for responses that keep calling models after the handler has returned
+ * (no-op outside trackUsage)
+ */
+export function deferUsage(c: Context): () => void {
+    const trace = c.get('trace') as UsageTrace | undefined;
+    let settle = () => {};
+    if (trace) {
+        trace.settled = new Promise<void>(resolve => { settle = resolve; });
+    }
+    return settle;
+}
+
+/**
+ * The model whose output was used: the last successful translation call,
+ * or the last successful assist call for routes that only use those
+ */
+export function servingModel(attempts: ModelAttempt[]): string | null {
+    const ok = attempts.filter(attempt => attempt.ok);
+    const translation = ok.filter(attempt => !attempt.assist);
+    return (translation.length > 0 ? translation : ok).at(-1)?.model ?? null;
+}
+
+/**
+ * Where a request's output came from. Work done for it wins over cache hits
+ * (a batch of cached and translated texts is 'api'); a successful response
+ * that used none of them was computed in the Worker itself.
+ */
+export function usageSource(
+    attempts: ModelAttempt[],
+    meter: UsageMeter | undefined,
+    cacheHit: boolean,
+    status: number
+): UsageSource {
+    const usedAI = attempts.some(attempt => attempt.ok && !attempt.local);
+    const usedDictionary = (meter?.dictionary ?? 0) > 0;
+
+    if (usedAI) return usedDictionary ? 'mixed' : 'api';
+    if (usedDictionary) return 'dictionary';
+    if (cacheHit) return 'cache';
+    return status < 400 ? 'local' : 'none';
+}
+
+/**
+ * Language pair and character count from a request body
+ */
+export function describeRequest(body: any): { from: string | null; to: string | null; characters: number } {
+    if (!body || typeof body !== 'object') {
+        return { from: null, to: null, characters: 0 };
+    }
+
+    const texts = [body.text, body.content, body.original, body.word, body.verb, ...(Array.isArray(body.texts) ? body.texts : [])];
+    const to = Array.isArray(body.to) ? body.to.join(',') : body.to;
+
+    return {
+        from: String(body.from ?? body.language ?? 'auto'),
+        to: typeof to === 'string' ? to : null,
+        characters: texts.reduce((sum: number, text) => sum + (typeof text === 'string' ? text.length : 0), 0),
+    };
+}
+
+// =============================================================================
+// MIDDLEWARE
+// =============================================================================
+
+/**
+ * Record a usage event for the route once it has responded. Runs after
+ * requireScope and rateLimit, whose principal and meter it reads.
+ */
+export function trackUsage<E extends {
+    Bindings: UsageEnv;
+    Variables: { principal: Principal; usage: UsageMeter; trace: UsageTrace };
+}>(): MiddlewareHandler<E> {
+    return async (c, next) => {
+        const trace: UsageTrace = { attempts: [], cacheHits: 0 };
+        c.set('trace', trace);
+        const started = Date.now();
+
+        await next();
+
+        const db = c.env.LINGUA_DB;
+        if (!db) {
+            return;
+        }
+
+        const body = await c.req.json().catch(() => null);
+        const request = describeRequest(body);
+        const principal = c.get('principal')?.id ?? 'anonymous';
+        const route = `${c.req.method} ${routePath(c)}`;
+        const status = c.res.status;
+
+        const record = async () => {
+            // Streamed responses only know their models once the stream ends
+            await trace.settled;
+            const event: UsageEvent = {
+                principal,
+                route,
+                sourceLanguage: request.from,
+                targetLanguage: request.to,
+                characters: request.characters,
+                source: usageSource(trace.attempts, c.get('usage'), trace.cacheHits > 0, status),
+                model: servingModel(trace.attempts),
+                fallbackChain: trace.attempts,
+                latencyMs: Date.now() - started,
+                status,
+            };
+            await recordUsageEvent(db, event);
+        };
+
+        const write = record().catch(err => console.warn('[USAGE] Record failed:', err));
+        try {
+            c.executionCtx.waitUntil(write);
+        } catch {
+            // A deferred event settles after the response, so it can't hold it up
+            if (!trace.settled) {
+                await write;
+            }
+        }
+    };
+}
+
+// =============================================================================
+// STORAGE & REPORTS
+// =============================================================================
+
+export async function recordUsageEvent(db: D1Database, event: UsageEvent): Promise<void> {
+    await db
+        .prepare(
+            `INSERT INTO usage_events
+         (principal, route, source_language, target_language, characters, source, model, fallback_chain, latency_ms, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+            event.principal,
+            event.route,
+            event.sourceLanguage,
+            event.targetLanguage,
+            event.characters,
+            event.source,
+            event.model,
+            event.fallbackChain.length > 0 ? JSON.stringify(event.fallbackChain) : null,
+            event.latencyMs,
+            event.status
+        )
+        .run();
+}
+
+/**
+ * Aggregate usage events, optionally for a date range (YYYY-MM-DD, inclusive)
+ * and a single key
+ */
+export async function usageReport(
+    db: D1Database,
+    options: { groupBy: UsageGrouping; since?: string; until?: string; principal?: string }
+): Promise<UsageReportRow[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.since) {
+        conditions.push('date(created_at) >= ?');
+        params.push(options.since);
+    }
+    if (options.until) {
+        conditions.push('date(created_at) <= ?');
+        params.push(options.until);
+    }
+    if (options.principal) {
+        conditions.push('principal = ?');
+        params.push(options.principal);
+    }
+
+    const group = GROUP_EXPRESSIONS[options.groupBy];
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const results = await db
+        .prepare(
+            `SELECT ${group} AS grp,
+              COUNT(*) AS requests,
+              SUM(characters) AS characters,
+              SUM(source = 'dictionary') AS dictionary,
+              SUM(source = 'cache') AS cache,
+              SUM(source = 'api') AS api,
+              SUM(source = 'mixed') AS mixed,
+              SUM(source = 'local') AS local,
+              SUM(source = 'none') AS none,
+              AVG(latency_ms) AS avg_latency
+       FROM usage_events ${where}
+       GROUP BY grp
+       ORDER BY ${options.groupBy === 'day' ? 'grp DESC' : 'requests DESC'}`
+        )
+        .bind(...params)
+        .all<{
+            grp: string | null;
+            requests: number;
+            characters: number | null;
+            dictionary: number;
+            cache: number;
+            api: number;
+            mixed: number;
+            local: number;
+            none: number;
+            avg_latency: number | null;
+        }>();
+
+    const rows = results.results || [];
+    const total = rows.reduce((sum, row) => sum + row.requests, 0);
+
+    return rows.map(row => ({
+        group: row.grp,
+        requests: row.requests,
+        characters: row.characters ?? 0,
+        share: total > 0 ? Math.round((row.requests / total) * 10000) / 10000 : 0,
+        dictionary: row.dictionary,
+        cache: row.cache,
+        api: row.api,
+        mixed: row.mixed,
+        local: row.local,
+        none: row.none,
+        avgLatencyMs: Math.round(row.avg_latency ?? 0),
+    }));
+}